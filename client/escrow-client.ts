@@ -1,22 +1,254 @@
 // client/escrow-client.ts - Client SDK for interacting with the escrow program
 import * as anchor from "@coral-xyz/anchor";
 import { Program, BN, web3 } from "@coral-xyz/anchor";
+import { IdlField, IdlTypeDef } from "@coral-xyz/anchor/dist/cjs/idl";
 import { EscrowSystem } from "../target/types/escrow_system";
 import { 
   TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  NATIVE_MINT,
   getAssociatedTokenAddress,
   createAssociatedTokenAccountInstruction,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createCloseAccountInstruction,
 } from "@solana/spl-token";
 
+export { NATIVE_MINT };
+
+/** Account layout version written by the current program */
+export const ESCROW_VERSION = 1;
+
+// Escrows created before account versioning carry the original program's
+// discriminator and layout: the current fields from `buyer` to `vaultBump`
+const LEGACY_ESCROW_DISCRIMINATOR = Buffer.from([36, 69, 48, 18, 128, 225, 125, 135]);
+
+const BPF_LOADER_UPGRADEABLE_PROGRAM_ID = new web3.PublicKey(
+  "BPFLoaderUpgradeab1e11111111111111111111111"
+);
+
+/** A wallet-adapter-style signer, e.g. `useAnchorWallet()` in React */
+export interface WalletSigner {
+  publicKey: web3.PublicKey;
+  signTransaction<T extends web3.Transaction | web3.VersionedTransaction>(transaction: T): Promise<T>;
+}
+
+/** Anything that can sign for an escrow party: a local Keypair or a wallet */
+export type EscrowSigner = web3.Keypair | WalletSigner;
+
+/** A durable nonce account and the authority allowed to advance it */
+export interface DurableNonceConfig {
+  account: web3.PublicKey;
+  authority: web3.PublicKey;
+}
+
+function isKeypair(signer: EscrowSigner): signer is web3.Keypair {
+  return "secretKey" in signer;
+}
+
+/** Name of an `EscrowError` variant, e.g. "UnauthorizedRelease" */
+export type EscrowErrorCode = EscrowSystem["errors"][number]["name"];
+
+/**
+ * Base class of every error the client throws for a failed transaction.
+ * `code` is stable across releases; `message` is written for end users.
+ */
+export class EscrowClientError extends Error {
+  constructor(
+    readonly code: string,
+    message: string,
+    readonly logs: string[] = [],
+    readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * The escrow program rejected the instruction. `code` is an `EscrowErrorCode`,
+ * or the name of an Anchor account check such as "ConstraintHasOne".
+ */
+export class EscrowProgramError extends EscrowClientError {
+  constructor(
+    code: EscrowErrorCode | string,
+    readonly errorNumber: number,
+    message: string,
+    logs: string[] = [],
+    cause?: unknown
+  ) {
+    super(code, message, logs, cause);
+  }
+}
+
+/** An SPL Token or Token-2022 instruction failed, e.g. for lack of funds */
+export class TokenProgramError extends EscrowClientError {}
+
+/** The transaction failed outside the programs: fees, expiry, size or a declined signature */
+export class EscrowTransactionError extends EscrowClientError {}
+
+// Token program errors escrow flows run into, by custom error number
+const TOKEN_ERRORS: Record<number, [string, string]> = {
+  0x0: ["TokenNotRentExempt", "Token account is not rent exempt"],
+  0x1: ["TokenInsufficientFunds", "Not enough tokens in the account"],
+  0x3: ["TokenMintMismatch", "Token account is for a different mint"],
+  0x4: ["TokenOwnerMismatch", "Token account belongs to another wallet"],
+  0x9: ["TokenAccountUninitialized", "Token account does not exist"],
+  0x11: ["TokenAccountFrozen", "Token account is frozen"],
+  0x12: ["TokenDecimalsMismatch", "Amount uses the wrong number of decimals for the mint"],
+};
+
+const TRANSACTION_ERRORS: [RegExp, string, string][] = [
+  [
+    /no record of a prior credit|insufficient lamports|insufficient funds for (fee|rent)/i,
+    "InsufficientSol",
+    "Not enough SOL to pay for the transaction",
+  ],
+  [
+    /blockhash not found|block height exceeded|has expired/i,
+    "TransactionExpired",
+    "The transaction expired before it was confirmed, please try again",
+  ],
+  [
+    /user rejected|rejected the request|WalletSignTransactionError/i,
+    "UserRejected",
+    "The wallet declined to sign the transaction",
+  ],
+  [
+    /transaction too large|encoding overruns/i,
+    "TransactionTooLarge",
+    "The transaction is too large, try fewer milestones or recipients",
+  ],
+];
+
+// The parts of an Anchor method builder the client sends or compiles
+type MethodCall = {
+  signers(signers: web3.Signer[]): { rpc(): Promise<string> };
+  transaction(): Promise<web3.Transaction>;
+};
+
+export interface MilestoneConfig {
+  amount: BN;
+  description: string; // Up to 64 characters
+}
+
+export interface RecipientConfig {
+  wallet: web3.PublicKey;
+  shareBps: number; // Shares of all recipients add up to 10000
+}
+
+/** A panel member's ruling: all to the seller, all back to the buyer, or a split */
+export type DisputeVote = "release" | "refund" | { split: number }; // split = buyer share in bps
+
+export interface ArbiterVoteInfo {
+  arbiter: web3.PublicKey;
+  vote: DisputeVote;
+  buyerShareBps: number;
+  votedAt: BN;
+}
+
+export interface ArbiterVoteTally {
+  buyerShareBps: number;
+  votes: number;
+}
+
+export interface ArbiterVotes {
+  panel: web3.PublicKey[];
+  threshold: number;
+  votes: ArbiterVoteInfo[];
+  tally: ArbiterVoteTally[]; // Most supported outcome first
+}
+
+/** Attestor whose signature over (escrow, conditionHash) releases the escrow */
+export interface AttestationConfig {
+  attestor: web3.PublicKey;
+  conditionHash: Uint8Array; // 32 bytes, e.g. the SHA-256 of the condition text
+}
+
+/** Off-chain terms document referenced by hash instead of inline conditions */
+export interface TermsConfig {
+  hash: Uint8Array; // 32 bytes, see hashTermsDocument
+  uri: string; // Where the document can be fetched, up to 128 characters
+}
+
+/** Downloads a terms document; the global `fetch` fits, as do polyfills */
+export type TermsFetcher = (uri: string) => Promise<{
+  ok: boolean;
+  status: number;
+  arrayBuffer(): Promise<ArrayBuffer>;
+}>;
+
+/** Actions a delegate may take for the party that registered it */
+export type DelegateAction = "release" | "cancel";
+
+const DELEGATE_ACTION_FLAGS: Record<DelegateAction, number> = {
+  release: 1 << 0,
+  cancel: 1 << 1,
+};
+
+export interface DelegateConfig {
+  delegate: web3.PublicKey;
+  actions: DelegateAction[];
+  expiresAt?: BN; // Unix timestamp, no expiry when omitted
+}
+
+export interface DelegateInfo extends DelegateConfig {
+  party: web3.PublicKey; // Buyer, seller or arbiter the delegate acts for
+}
+
+/** What happens to the funds when an escrow reaches its timeout */
+export type TimeoutPolicy = "releaseToSeller" | "refundToBuyer";
+
+function encodeTimeoutPolicy(policy: TimeoutPolicy): EscrowIdlTypes["timeoutPolicy"] {
+  return policy === "refundToBuyer" ? { refundToBuyer: {} } : { releaseToSeller: {} };
+}
+
 export interface EscrowConfig {
   amount: BN;
   seller: web3.PublicKey;
-  mint: web3.PublicKey;
-  releaseConditions: string;
+  mint: web3.PublicKey; // NATIVE_MINT escrows plain SOL, paid out as SOL to wallets
+  releaseConditions: string; // Ignored when `terms` is set
   timeoutDuration?: BN; // Optional timeout in seconds
+  terms?: TermsConfig; // Stores a hash and URI instead of up to 500 bytes of conditions
+  milestones?: MilestoneConfig[]; // Optional, amounts must add up to `amount`
+  requireAcceptance?: boolean; // Seller must accept the terms before funding
+  timeoutPolicy?: TimeoutPolicy; // Defaults to "releaseToSeller"
+  recipients?: RecipientConfig[]; // Optional, splits seller payouts by share
+  arbiterPanel?: { arbiters: web3.PublicKey[]; threshold: number }; // M-of-N dispute panel
+  counterAsset?: CounterAssetConfig; // Makes this a two-sided swap
+  vesting?: VestingConfig; // Unlocks the funds to the seller over time
+  attestation?: AttestationConfig; // Lets an oracle's signature release the funds
+  secretHash?: Uint8Array; // SHA-256 hash lock, see createHashLockedEscrow
+}
+
+/** Linear vesting between two Unix timestamps, nothing vested before the cliff */
+export interface VestingConfig {
+  startTs: BN;
+  endTs: BN;
+  cliffTs?: BN; // Defaults to startTs
+}
+
+export interface VestingSchedule {
+  startTs: BN;
+  cliffTs: BN;
+  endTs: BN;
+}
+
+/** The asset the seller deposits in a two-sided swap, e.g. an NFT (amount 1) */
+export interface CounterAssetConfig {
+  mint: web3.PublicKey;
+  amount: BN;
+}
+
+export interface MilestoneInfo {
+  index: number;
+  amount: BN;
+  description: string;
+  released: boolean;
+  releasedAt?: BN;
 }
 
 export interface EscrowInfo {
+  version: number; // 0 until migrated with migrateEscrow
   escrow: web3.PublicKey;
   vault: web3.PublicKey;
   buyer: web3.PublicKey;
@@ -31,15 +263,119 @@ export interface EscrowInfo {
   releasedAt?: BN;
   cancelledAt?: BN;
   arbiter?: web3.PublicKey;
+  milestones: MilestoneInfo[];
+  depositedAmount: BN; // What actually arrived in the vault (less than `amount` for transfer-fee mints)
+  releasedAmount: BN;
+  remainingAmount: BN;
+  disputedAt?: BN;
+  disputedBy?: web3.PublicKey;
+  resolvedAt?: BN;
+  requiresAcceptance: boolean;
+  acceptedAt?: BN;
+  timeoutPolicy: TimeoutPolicy;
+  recipients: RecipientConfig[]; // Empty when the seller is paid alone
+  arbiterPanel: web3.PublicKey[];
+  arbiterThreshold: number;
+  arbiterVotes: ArbiterVoteInfo[];
+  counterMint?: web3.PublicKey; // Set on swap escrows
+  counterVault?: web3.PublicKey;
+  counterAmount: BN;
+  counterDepositedAmount: BN;
+  vesting?: VestingSchedule; // Set on vesting escrows
+  delegates: DelegateInfo[];
+  attestor?: web3.PublicKey; // Set on attested escrows
+  conditionHash?: Buffer;
+  secretHash?: Buffer; // Set on hash-locked escrows
+  termsHash?: Buffer; // Set on escrows created with a terms document
+  termsUri: string;
+}
+
+export interface ProgramConfig {
+  config: web3.PublicKey;
+  admin: web3.PublicKey;
+  feeBps: number;
+  treasury: web3.PublicKey;
+  paused: boolean; // New escrows and deposits are blocked while set
+}
+
+export interface ConfigUpdate {
+  feeBps?: number;
+  treasury?: web3.PublicKey;
+  admin?: web3.PublicKey;
+}
+
+export interface EscrowAmendment {
+  amount?: BN;
+  timeoutAt?: BN; // Unix timestamp, must be in the future
+  seller?: web3.PublicKey;
+  milestones?: MilestoneConfig[]; // Re-split a new amount (changing it clears milestones)
 }
 
+/**
+ * Event payloads by name, decoded with the IDL. Anchor decodes event names
+ * in camelCase, e.g. `escrowCreated`.
+ */
+export type EscrowEvents = anchor.IdlEvents<EscrowSystem>;
+
+/** Instruction argument and account types as the IDL encodes them */
+type EscrowIdlTypes = anchor.IdlTypes<EscrowSystem>;
+
+/** A decoded escrow account, as `program.account.escrowAccount.fetch` returns it */
+type EscrowAccountData = anchor.IdlAccounts<EscrowSystem>["escrowAccount"];
+
+/** The fields of a legacy escrow, `buyer` to `vaultBump` of the current layout */
+type LegacyEscrowAccountData = Pick<
+  EscrowAccountData,
+  | "buyer"
+  | "seller"
+  | "mint"
+  | "amount"
+  | "escrowSeed"
+  | "releaseConditions"
+  | "state"
+  | "createdAt"
+  | "fundedAt"
+  | "timeoutAt"
+  | "releasedAt"
+  | "cancelledAt"
+  | "releasedBy"
+  | "cancelledBy"
+  | "arbiter"
+  | "bump"
+  | "vaultBump"
+>;
+
+/** The parts of an escrow that decide which account receives a payout */
+type PayoutAsset = Pick<EscrowAccountData, "mint" | "holdsLamports">;
+
 export class EscrowClient {
   private program: Program<EscrowSystem>;
   private provider: anchor.AnchorProvider;
+  private legacyCoder: anchor.BorshCoder;
 
   constructor(program: Program<EscrowSystem>, provider: anchor.AnchorProvider) {
     this.program = program;
     this.provider = provider;
+
+    const idl: anchor.Idl = program.idl;
+    const types = idl.types ?? [];
+    const escrowType = types.find((type) => type.name === "escrowAccount");
+    if (escrowType?.type.kind !== "struct") {
+      throw new Error("The program IDL has no escrowAccount struct");
+    }
+    // Account structs always have named fields
+    const fields = (escrowType.type.fields ?? []) as IdlField[];
+    const legacyEscrowType: IdlTypeDef = {
+      name: "legacyEscrowAccount",
+      type: {
+        kind: "struct",
+        fields: fields.slice(
+          fields.findIndex((field) => field.name === "buyer"),
+          fields.findIndex((field) => field.name === "vaultBump") + 1
+        ),
+      },
+    };
+    this.legacyCoder = new anchor.BorshCoder({ ...idl, types: [...types, legacyEscrowType] });
   }
 
   /**
@@ -72,11 +408,201 @@ export class EscrowClient {
     return { escrow, vault, escrowBump, vaultBump };
   }
 
+  /**
+   * Vault holding the seller's side of a swap escrow
+   */
+  getCounterVaultPDA(buyer: web3.PublicKey, escrowSeed: BN): web3.PublicKey {
+    const [counterVault] = web3.PublicKey.findProgramAddressSync(
+      [
+        Buffer.from("counter_vault"),
+        buyer.toBuffer(),
+        escrowSeed.toArrayLike(Buffer, "le", 8)
+      ],
+      this.program.programId
+    );
+
+    return counterVault;
+  }
+
+  /**
+   * Program-wide configuration PDA
+   */
+  getConfigPDA(): web3.PublicKey {
+    const [config] = web3.PublicKey.findProgramAddressSync(
+      [Buffer.from("config")],
+      this.program.programId
+    );
+
+    return config;
+  }
+
+  /**
+   * Instructions for `initializeEscrow`, to sign and send elsewhere
+   */
+  async buildInitializeEscrowIx(
+    buyer: web3.PublicKey,
+    config: EscrowConfig,
+    escrowSeed?: BN
+  ): Promise<{
+    instructions: web3.TransactionInstruction[];
+    escrow: web3.PublicKey;
+    vault: web3.PublicKey;
+    escrowSeed: BN;
+  }> {
+    if (config.terms && config.terms.hash.length !== 32) {
+      throw new Error("Terms hash must be 32 bytes");
+    }
+
+    const seed = escrowSeed || new BN(Date.now());
+    const { escrow, vault } = this.generateEscrowPDAs(buyer, seed);
+
+    // Milestones are set in the same transaction so the escrow is never
+    // observable without them
+    const postInstructions: web3.TransactionInstruction[] = [];
+    if (config.milestones && config.milestones.length > 0) {
+      postInstructions.push(
+        await this.program.methods
+          .setMilestones(config.milestones)
+          .accounts({
+            escrow,
+            authority: buyer,
+          })
+          .instruction()
+      );
+    }
+    if (config.recipients && config.recipients.length > 0) {
+      postInstructions.push(
+        await this.program.methods
+          .setRecipients(config.recipients)
+          .accounts({
+            escrow,
+            authority: buyer,
+          })
+          .instruction()
+      );
+    }
+    if (config.arbiterPanel && config.arbiterPanel.arbiters.length > 0) {
+      postInstructions.push(
+        await this.program.methods
+          .setArbiterPanel(config.arbiterPanel.arbiters, config.arbiterPanel.threshold)
+          .accounts({
+            escrow,
+            authority: buyer,
+          })
+          .instruction()
+      );
+    }
+    if (config.timeoutPolicy && config.timeoutPolicy !== "releaseToSeller") {
+      postInstructions.push(
+        await this.program.methods
+          .setTimeoutPolicy(encodeTimeoutPolicy(config.timeoutPolicy))
+          .accounts({
+            escrow,
+            authority: buyer,
+          })
+          .instruction()
+      );
+    }
+    if (config.attestation) {
+      postInstructions.push(
+        await this.program.methods
+          .setAttestation(config.attestation.attestor, Array.from(config.attestation.conditionHash))
+          .accounts({
+            escrow,
+            authority: buyer,
+          })
+          .instruction()
+      );
+    }
+    if (config.vesting) {
+      postInstructions.push(
+        await this.program.methods
+          .setVesting(config.vesting.startTs, config.vesting.endTs, config.vesting.cliffTs || null)
+          .accounts({
+            escrow,
+            authority: buyer,
+          })
+          .instruction()
+      );
+    }
+    if (config.counterAsset) {
+      postInstructions.push(
+        await this.program.methods
+          .enableSwap(config.counterAsset.amount)
+          .accounts({
+            escrow,
+            counterVault: this.getCounterVaultPDA(buyer, seed),
+            buyer,
+            counterMint: config.counterAsset.mint,
+            counterTokenProgram: await this.getTokenProgram(config.counterAsset.mint),
+          })
+          .instruction()
+      );
+    }
+    // After setTimeoutPolicy, as the hash lock switches the policy to refunds
+    if (config.secretHash) {
+      postInstructions.push(
+        await this.program.methods
+          .setHashLock(Array.from(config.secretHash))
+          .accounts({
+            escrow,
+            authority: buyer,
+          })
+          .instruction()
+      );
+    }
+    if (config.requireAcceptance) {
+      postInstructions.push(
+        await this.program.methods
+          .requireAcceptance()
+          .accounts({
+            escrow,
+            authority: buyer,
+          })
+          .instruction()
+      );
+    }
+
+    const tokenProgram = await this.getTokenProgram(config.mint);
+
+    const initialize = config.terms
+      ? this.program.methods.initializeEscrowWithTerms(
+          config.amount,
+          seed,
+          config.seller,
+          Array.from(config.terms.hash),
+          config.terms.uri,
+          config.timeoutDuration || null
+        )
+      : this.program.methods.initializeEscrow(
+          config.amount,
+          seed,
+          config.seller,
+          config.releaseConditions,
+          config.timeoutDuration || null
+        );
+
+    const instructions = await this.instructionsOf(
+      initialize
+        .accounts({
+          escrow,
+          vault,
+          buyer,
+          mint: config.mint,
+          config: this.getConfigPDA(),
+          tokenProgram,
+        })
+        .postInstructions(postInstructions)
+    );
+
+    return { instructions, escrow, vault, escrowSeed: seed };
+  }
+
   /**
    * Initialize a new escrow
    */
   async initializeEscrow(
-    buyer: web3.Keypair,
+    buyer: EscrowSigner,
     config: EscrowConfig,
     escrowSeed?: BN
   ): Promise<{
@@ -85,279 +611,1803 @@ export class EscrowClient {
     vault: web3.PublicKey;
     escrowSeed: BN;
   }> {
-    const seed = escrowSeed || new BN(Date.now());
-    const { escrow, vault } = this.generateEscrowPDAs(buyer.publicKey, seed);
-
-    const signature = await this.program.methods
-      .initializeEscrow(
-        config.amount,
-        seed,
-        config.seller,
-        config.releaseConditions,
-        config.timeoutDuration || null
-      )
-      .accounts({
-        escrow,
-        vault,
-        buyer: buyer.publicKey,
-        mint: config.mint,
-      })
-      .signers([buyer])
-      .rpc();
+    const { instructions, ...accounts } = await this.buildInitializeEscrowIx(
+      buyer.publicKey,
+      config,
+      escrowSeed
+    );
+    const signature = await this.send(instructions, [buyer]);
 
-    return { signature, escrow, vault, escrowSeed: seed };
+    return { signature, ...accounts };
   }
 
   /**
-   * Deposit funds into escrow
+   * Initialize and fund an escrow in one transaction, so a failed deposit
+   * never leaves an unfunded escrow behind. Opens the buyer's token account
+   * if it is missing.
    */
-  async deposit(
-    buyer: web3.Keypair,
-    escrow: web3.PublicKey,
-    mint: web3.PublicKey
-  ): Promise<string> {
-    const escrowAccount = await this.program.account.escrowAccount.fetch(escrow);
-    const { vault } = this.generateEscrowPDAs(buyer.publicKey, escrowAccount.escrowSeed);
-    
-    const buyerTokenAccount = await getAssociatedTokenAddress(
-      mint,
-      buyer.publicKey
+  async createAndFundEscrow(
+    buyer: EscrowSigner,
+    config: EscrowConfig,
+    escrowSeed?: BN
+  ): Promise<{
+    signature: string;
+    escrow: web3.PublicKey;
+    vault: web3.PublicKey;
+    escrowSeed: BN;
+  }> {
+    if (config.requireAcceptance) {
+      throw new Error("Escrows awaiting the seller's acceptance cannot be funded at creation");
+    }
+
+    const { instructions, ...accounts } = await this.buildInitializeEscrowIx(
+      buyer.publicKey,
+      config,
+      escrowSeed
     );
 
-    const signature = await this.program.methods
-      .deposit()
-      .accounts({
-        escrow,
-        vault,
-        depositor: buyer.publicKey,
-        depositorTokenAccount: buyerTokenAccount,
-      })
-      .signers([buyer])
-      .rpc();
+    // Native SOL deposits come straight from the buyer's wallet
+    const preInstructions: web3.TransactionInstruction[] = [];
+    if (!config.mint.equals(NATIVE_MINT)) {
+      const { instruction } = await this.createAssociatedTokenAccountIfNeeded(
+        buyer,
+        buyer.publicKey,
+        config.mint
+      );
+      if (instruction) {
+        preInstructions.push(instruction);
+      }
+    }
 
-    return signature;
+    const depositInstructions = await this.depositInstructions(
+      buyer.publicKey,
+      accounts.escrow,
+      config.mint,
+      accounts.escrowSeed
+    );
+    const signature = await this.send(
+      [...preInstructions, ...instructions, ...depositInstructions],
+      [buyer]
+    );
+
+    return { signature, ...accounts };
   }
 
   /**
-   * Release funds to seller
+   * Create an HTLC-style escrow: revealing the preimage of `secretHash`
+   * (SHA-256, up to 64 bytes) before the timeout releases the funds to the
+   * seller, after the timeout the buyer gets a refund
    */
-  async releaseFunds(
-    authority: web3.Keypair,
-    escrow: web3.PublicKey
-  ): Promise<string> {
-    const escrowAccount = await this.program.account.escrowAccount.fetch(escrow);
-    const { vault } = this.generateEscrowPDAs(escrowAccount.buyer, escrowAccount.escrowSeed);
-    
-    const sellerTokenAccount = await getAssociatedTokenAddress(
-      escrowAccount.mint,
-      escrowAccount.seller
-    );
-
-    const signature = await this.program.methods
-      .release()
-      .accounts({
-        escrow,
-        vault,
-        authority: authority.publicKey,
-        sellerTokenAccount,
-      })
-      .signers([authority])
-      .rpc();
+  async createHashLockedEscrow(
+    buyer: EscrowSigner,
+    config: EscrowConfig,
+    secretHash: Uint8Array,
+    escrowSeed?: BN
+  ): Promise<{
+    signature: string;
+    escrow: web3.PublicKey;
+    vault: web3.PublicKey;
+    escrowSeed: BN;
+  }> {
+    if (!config.timeoutDuration) {
+      throw new Error("Hash-locked escrows need a timeoutDuration");
+    }
+    if (secretHash.length !== 32) {
+      throw new Error("Secret hash must be 32 bytes");
+    }
 
-    return signature;
+    return this.initializeEscrow(buyer, { ...config, secretHash }, escrowSeed);
   }
 
   /**
-   * Cancel escrow and return funds
+   * Release a hash-locked escrow to the seller by revealing the preimage.
+   * Anyone can call this; the preimage is published in `PreimageRevealed`.
    */
-  async cancelEscrow(
-    authority: web3.Keypair,
-    escrow: web3.PublicKey
+  async claimWithPreimage(
+    authority: EscrowSigner,
+    escrow: web3.PublicKey,
+    preimage: Uint8Array
   ): Promise<string> {
     const escrowAccount = await this.program.account.escrowAccount.fetch(escrow);
     const { vault } = this.generateEscrowPDAs(escrowAccount.buyer, escrowAccount.escrowSeed);
-    
-    const buyerTokenAccount = await getAssociatedTokenAddress(
+    const tokenProgram = await this.getTokenProgram(escrowAccount.mint);
+
+    const sellerTokenAccount = await this.payoutAccount(escrowAccount, escrowAccount.seller, tokenProgram);
+    const treasury = await this.getTreasury(escrowAccount, tokenProgram);
+    const { preInstructions, postInstructions } = this.payoutInstructions(
+      authority.publicKey,
+      escrowAccount.seller,
       escrowAccount.mint,
-      escrowAccount.buyer
+      sellerTokenAccount,
+      tokenProgram,
+      treasury
     );
 
-    const signature = await this.program.methods
-      .cancel()
-      .accounts({
-        escrow,
-        vault,
-        authority: authority.publicKey,
-        buyerTokenAccount,
-      })
-      .signers([authority])
-      .rpc();
+    const recipients = await this.recipientAccounts(escrowAccount, tokenProgram, authority.publicKey);
+
+    const signature = await this.send(
+      this.program.methods
+        .claimWithPreimage(Buffer.from(preimage))
+        .accounts({
+          escrow,
+          vault,
+          authority: authority.publicKey,
+          sellerTokenAccount,
+          config: this.getConfigPDA(),
+          treasuryTokenAccount: treasury.tokenAccount,
+          mint: escrowAccount.mint,
+          tokenProgram,
+        })
+        .remainingAccounts(recipients.remainingAccounts)
+        .preInstructions([...preInstructions, ...recipients.preInstructions])
+        .postInstructions(postInstructions),
+      [authority]
+    );
 
     return signature;
   }
 
   /**
-   * Set arbiter for dispute resolution
+   * Instructions for `acceptEscrow`, to sign and send elsewhere
    */
-  async setArbiter(
-    buyer: web3.Keypair,
-    escrow: web3.PublicKey,
-    arbiter: web3.PublicKey
-  ): Promise<string> {
-    const signature = await this.program.methods
-      .setArbiter(arbiter)
-      .accounts({
-        escrow,
-        authority: buyer.publicKey,
-      })
-      .signers([buyer])
-      .rpc();
-
-    return signature;
+  async buildAcceptEscrowIx(
+    seller: web3.PublicKey,
+    escrow: web3.PublicKey
+  ): Promise<web3.TransactionInstruction[]> {
+    return this.instructionsOf(
+      this.program.methods
+        .acceptEscrow()
+        .accounts({
+          escrow,
+          seller,
+        })
+    );
   }
 
   /**
-   * Update release conditions
+   * Accept the escrow terms as the seller, making the escrow fundable
    */
-  async updateConditions(
-    buyer: web3.Keypair,
-    escrow: web3.PublicKey,
-    newConditions: string
+  async acceptEscrow(
+    seller: EscrowSigner,
+    escrow: web3.PublicKey
   ): Promise<string> {
-    const signature = await this.program.methods
-      .updateConditions(newConditions)
-      .accounts({
-        escrow,
-        authority: buyer.publicKey,
-      })
-      .signers([buyer])
-      .rpc();
-
-    return signature;
+    return this.send(await this.buildAcceptEscrowIx(seller.publicKey, escrow), [seller]);
   }
 
   /**
-   * Close escrow account and recover rent
+   * Reject the escrow terms as the seller, cancelling the escrow
    */
-  async closeEscrow(
-    buyer: web3.Keypair,
+  async rejectEscrow(
+    seller: EscrowSigner,
     escrow: web3.PublicKey
   ): Promise<string> {
-    const signature = await this.program.methods
-      .closeEscrow()
-      .accounts({
-        escrow,
-        authority: buyer.publicKey,
-      })
-      .signers([buyer])
-      .rpc();
+    const signature = await this.send(
+      this.program.methods
+        .rejectEscrow()
+        .accounts({
+          escrow,
+          seller: seller.publicKey,
+        }),
+      [seller]
+    );
 
     return signature;
   }
 
   /**
-   * Get escrow information
+   * Instructions for `deposit`, to sign and send elsewhere
    */
-  async getEscrowInfo(escrow: web3.PublicKey): Promise<EscrowInfo> {
-    const account = await this.program.account.escrowAccount.fetch(escrow);
-    const { vault } = this.generateEscrowPDAs(account.buyer, account.escrowSeed);
+  async buildDepositIx(
+    buyer: web3.PublicKey,
+    escrow: web3.PublicKey,
+    mint: web3.PublicKey
+  ): Promise<web3.TransactionInstruction[]> {
+    const escrowAccount = await this.program.account.escrowAccount.fetch(escrow);
 
-    return {
+    return this.depositInstructions(
+      buyer,
       escrow,
-      vault,
-      buyer: account.buyer,
-      seller: account.seller,
-      mint: account.mint,
-      amount: account.amount,
-      state: Object.keys(account.state)[0],
-      releaseConditions: account.releaseConditions,
-      createdAt: account.createdAt,
-      fundedAt: account.fundedAt,
-      timeoutAt: account.timeoutAt,
-      releasedAt: account.releasedAt,
-      cancelledAt: account.cancelledAt,
-      arbiter: account.arbiter,
-    };
+      mint,
+      escrowAccount.escrowSeed
+    );
   }
 
   /**
-   * Get all escrows for a buyer
+   * Deposit instructions for an escrow that may not exist yet
    */
-  async getEscrowsForBuyer(buyer: web3.PublicKey): Promise<EscrowInfo[]> {
-    const escrows = await this.program.account.escrowAccount.all([
-      {
-        memcmp: {
-          offset: 8, // Skip discriminator
-          bytes: buyer.toBase58(),
-        },
-      },
-    ]);
-
-    return escrows.map(escrow => {
-      const account = escrow.account;
-      const { vault } = this.generateEscrowPDAs(account.buyer, account.escrowSeed);
+  private async depositInstructions(
+    buyer: web3.PublicKey,
+    escrow: web3.PublicKey,
+    mint: web3.PublicKey,
+    escrowSeed: BN
+  ): Promise<web3.TransactionInstruction[]> {
+    const { vault } = this.generateEscrowPDAs(buyer, escrowSeed);
+    const tokenProgram = await this.getTokenProgram(mint);
+    
+    // Native SOL is paid in as lamports straight from the buyer's wallet
+    const buyerTokenAccount = mint.equals(NATIVE_MINT)
+      ? buyer
+      : await getAssociatedTokenAddress(mint, buyer, false, tokenProgram);
 
-      return {
-        escrow: escrow.publicKey,
-        vault,
-        buyer: account.buyer,
-        seller: account.seller,
-        mint: account.mint,
-        amount: account.amount,
-        state: Object.keys(account.state)[0],
-        releaseConditions: account.releaseConditions,
-        createdAt: account.createdAt,
-        fundedAt: account.fundedAt,
-        timeoutAt: account.timeoutAt,
-        releasedAt: account.releasedAt,
-        cancelledAt: account.cancelledAt,
-        arbiter: account.arbiter,
-      };
-    });
+    return this.instructionsOf(
+      this.program.methods
+        .deposit()
+        .accounts({
+          escrow,
+          vault,
+          depositor: buyer,
+          depositorTokenAccount: buyerTokenAccount,
+          mint: mint,
+          config: this.getConfigPDA(),
+          tokenProgram,
+        })
+    );
   }
 
   /**
-   * Get all escrows for a seller
+   * Deposit funds into escrow
    */
-  async getEscrowsForSeller(seller: web3.PublicKey): Promise<EscrowInfo[]> {
-    const escrows = await this.program.account.escrowAccount.all([
-      {
-        memcmp: {
-          offset: 8 + 32, // Skip discriminator and buyer
-          bytes: seller.toBase58(),
-        },
-      },
-    ]);
-
-    return escrows.map(escrow => {
-      const account = escrow.account;
-      const { vault } = this.generateEscrowPDAs(account.buyer, account.escrowSeed);
+  async deposit(
+    buyer: EscrowSigner,
+    escrow: web3.PublicKey,
+    mint: web3.PublicKey
+  ): Promise<string> {
+    return this.send(await this.buildDepositIx(buyer.publicKey, escrow, mint), [buyer]);
+  }
+
+  /**
+   * Instructions for `releaseFunds`, to sign and send elsewhere
+   */
+  async buildReleaseIx(
+    authority: web3.PublicKey,
+    escrow: web3.PublicKey
+  ): Promise<web3.TransactionInstruction[]> {
+    const escrowAccount = await this.program.account.escrowAccount.fetch(escrow);
+    const { vault } = this.generateEscrowPDAs(escrowAccount.buyer, escrowAccount.escrowSeed);
+    const tokenProgram = await this.getTokenProgram(escrowAccount.mint);
+    
+    const sellerTokenAccount = await this.payoutAccount(escrowAccount, escrowAccount.seller, tokenProgram);
+    const treasury = await this.getTreasury(escrowAccount, tokenProgram);
+    const { preInstructions, postInstructions } = this.payoutInstructions(
+      authority,
+      escrowAccount.seller,
+      escrowAccount.mint,
+      sellerTokenAccount,
+      tokenProgram,
+      treasury
+    );
+
+    const recipients = await this.recipientAccounts(escrowAccount, tokenProgram, authority);
+
+    return this.instructionsOf(
+      this.program.methods
+        .release()
+        .accounts({
+          escrow,
+          vault,
+          authority,
+          sellerTokenAccount,
+          config: this.getConfigPDA(),
+          treasuryTokenAccount: treasury.tokenAccount,
+          mint: escrowAccount.mint,
+          tokenProgram,
+        })
+        .remainingAccounts(recipients.remainingAccounts)
+        .preInstructions([...preInstructions, ...recipients.preInstructions])
+        .postInstructions(postInstructions)
+    );
+  }
+
+  /**
+   * Release funds to seller. `authority` may be the buyer, seller or arbiter,
+   * or a delegate of one of them allowed to release.
+   */
+  async releaseFunds(
+    authority: EscrowSigner,
+    escrow: web3.PublicKey
+  ): Promise<string> {
+    return this.send(await this.buildReleaseIx(authority.publicKey, escrow), [authority]);
+  }
+
+  /**
+   * Instructions for `releaseMilestone`, to sign and send elsewhere
+   */
+  async buildReleaseMilestoneIx(
+    authority: web3.PublicKey,
+    escrow: web3.PublicKey,
+    milestoneIndex: number
+  ): Promise<web3.TransactionInstruction[]> {
+    const escrowAccount = await this.program.account.escrowAccount.fetch(escrow);
+    const { vault } = this.generateEscrowPDAs(escrowAccount.buyer, escrowAccount.escrowSeed);
+    const tokenProgram = await this.getTokenProgram(escrowAccount.mint);
+
+    const sellerTokenAccount = await this.payoutAccount(escrowAccount, escrowAccount.seller, tokenProgram);
+    const treasury = await this.getTreasury(escrowAccount, tokenProgram);
+    const { preInstructions, postInstructions } = this.payoutInstructions(
+      authority,
+      escrowAccount.seller,
+      escrowAccount.mint,
+      sellerTokenAccount,
+      tokenProgram,
+      treasury
+    );
+
+    const recipients = await this.recipientAccounts(escrowAccount, tokenProgram, authority);
+
+    return this.instructionsOf(
+      this.program.methods
+        .releaseMilestone(milestoneIndex)
+        .accounts({
+          escrow,
+          vault,
+          authority,
+          sellerTokenAccount,
+          config: this.getConfigPDA(),
+          treasuryTokenAccount: treasury.tokenAccount,
+          mint: escrowAccount.mint,
+          tokenProgram,
+        })
+        .remainingAccounts(recipients.remainingAccounts)
+        .preInstructions([...preInstructions, ...recipients.preInstructions])
+        .postInstructions(postInstructions)
+    );
+  }
+
+  /**
+   * Release a single milestone to seller (`authority` may be a delegate)
+   */
+  async releaseMilestone(
+    authority: EscrowSigner,
+    escrow: web3.PublicKey,
+    milestoneIndex: number
+  ): Promise<string> {
+    return this.send(
+      await this.buildReleaseMilestoneIx(authority.publicKey, escrow, milestoneIndex),
+      [authority]
+    );
+  }
+
+  /**
+   * Instructions for `cancelEscrow`, to sign and send elsewhere
+   */
+  async buildCancelIx(
+    authority: web3.PublicKey,
+    escrow: web3.PublicKey
+  ): Promise<web3.TransactionInstruction[]> {
+    const escrowAccount = await this.program.account.escrowAccount.fetch(escrow);
+    const { vault } = this.generateEscrowPDAs(escrowAccount.buyer, escrowAccount.escrowSeed);
+    const tokenProgram = await this.getTokenProgram(escrowAccount.mint);
+    
+    const buyerTokenAccount = await this.payoutAccount(escrowAccount, escrowAccount.buyer, tokenProgram);
+    const { preInstructions, postInstructions } = this.payoutInstructions(
+      authority,
+      escrowAccount.buyer,
+      escrowAccount.mint,
+      buyerTokenAccount,
+      tokenProgram
+    );
+
+    return this.instructionsOf(
+      this.program.methods
+        .cancel()
+        .accounts({
+          escrow,
+          vault,
+          authority,
+          buyerTokenAccount,
+          mint: escrowAccount.mint,
+          tokenProgram,
+        })
+        .preInstructions(preInstructions)
+        .postInstructions(postInstructions)
+    );
+  }
+
+  /**
+   * Cancel escrow and return funds. `authority` may be the buyer or arbiter,
+   * or a delegate of one of them allowed to cancel.
+   */
+  async cancelEscrow(
+    authority: EscrowSigner,
+    escrow: web3.PublicKey
+  ): Promise<string> {
+    return this.send(await this.buildCancelIx(authority.publicKey, escrow), [authority]);
+  }
+
+  /**
+   * Change the timeout policy of an unfunded escrow
+   */
+  async setTimeoutPolicy(
+    buyer: EscrowSigner,
+    escrow: web3.PublicKey,
+    policy: TimeoutPolicy
+  ): Promise<string> {
+    const signature = await this.send(
+      this.program.methods
+        .setTimeoutPolicy(encodeTimeoutPolicy(policy))
+        .accounts({
+          escrow,
+          authority: buyer.publicKey,
+        }),
+      [buyer]
+    );
+
+    return signature;
+  }
+
+  /**
+   * Instructions for `settleExpired`, to sign and send elsewhere
+   */
+  async buildSettleExpiredIx(
+    authority: web3.PublicKey,
+    escrow: web3.PublicKey
+  ): Promise<web3.TransactionInstruction[]> {
+    const escrowAccount = await this.program.account.escrowAccount.fetch(escrow);
+    const { vault } = this.generateEscrowPDAs(escrowAccount.buyer, escrowAccount.escrowSeed);
+    const tokenProgram = await this.getTokenProgram(escrowAccount.mint);
+
+    const buyerTokenAccount = await this.payoutAccount(escrowAccount, escrowAccount.buyer, tokenProgram);
+    const sellerTokenAccount = await this.payoutAccount(escrowAccount, escrowAccount.seller, tokenProgram);
+    const treasury = await this.getTreasury(escrowAccount, tokenProgram);
+
+    // Both token accounts are passed whichever way the funds go
+    const refund = Object.keys(escrowAccount.timeoutPolicy)[0] === "refundToBuyer";
+    const [recipient, recipientTokenAccount, other, otherTokenAccount] = refund
+      ? [escrowAccount.buyer, buyerTokenAccount, escrowAccount.seller, sellerTokenAccount]
+      : [escrowAccount.seller, sellerTokenAccount, escrowAccount.buyer, buyerTokenAccount];
+    const { preInstructions, postInstructions } = this.payoutInstructions(
+      authority,
+      recipient,
+      escrowAccount.mint,
+      recipientTokenAccount,
+      tokenProgram,
+      treasury
+    );
+    preInstructions.push(
+      createAssociatedTokenAccountIdempotentInstruction(
+        authority,
+        otherTokenAccount,
+        other,
+        escrowAccount.mint,
+        tokenProgram
+      )
+    );
+
+    const recipients = await this.recipientAccounts(escrowAccount, tokenProgram, authority);
+
+    return this.instructionsOf(
+      this.program.methods
+        .settleExpired()
+        .accounts({
+          escrow,
+          vault,
+          authority,
+          buyerTokenAccount,
+          sellerTokenAccount,
+          config: this.getConfigPDA(),
+          treasuryTokenAccount: treasury.tokenAccount,
+          mint: escrowAccount.mint,
+          tokenProgram,
+        })
+        .remainingAccounts(recipients.remainingAccounts)
+        .preInstructions([...preInstructions, ...recipients.preInstructions])
+        .postInstructions(postInstructions)
+    );
+  }
+
+  /**
+   * Apply the timeout policy of an expired escrow. Anyone can call this.
+   */
+  async settleExpired(
+    authority: EscrowSigner,
+    escrow: web3.PublicKey
+  ): Promise<string> {
+    return this.send(await this.buildSettleExpiredIx(authority.publicKey, escrow), [authority]);
+  }
+
+  /**
+   * Name the attestor whose signature releases an unfunded escrow
+   */
+  async setAttestation(
+    buyer: EscrowSigner,
+    escrow: web3.PublicKey,
+    attestation: AttestationConfig
+  ): Promise<string> {
+    const signature = await this.send(
+      this.program.methods
+        .setAttestation(attestation.attestor, Array.from(attestation.conditionHash))
+        .accounts({
+          escrow,
+          authority: buyer.publicKey,
+        }),
+      [buyer]
+    );
+
+    return signature;
+  }
+
+  /**
+   * Release funds to the seller with the attestor's signature over
+   * `buildAttestationMessage(escrow, conditionHash)`. Anyone can submit it.
+   */
+  async releaseWithAttestation(
+    authority: EscrowSigner,
+    escrow: web3.PublicKey,
+    attestationSignature: Uint8Array
+  ): Promise<string> {
+    const escrowAccount = await this.program.account.escrowAccount.fetch(escrow);
+    if (!escrowAccount.attestor) {
+      throw new Error("Escrow has no attestor");
+    }
+    const { vault } = this.generateEscrowPDAs(escrowAccount.buyer, escrowAccount.escrowSeed);
+    const tokenProgram = await this.getTokenProgram(escrowAccount.mint);
+
+    const sellerTokenAccount = await this.payoutAccount(escrowAccount, escrowAccount.seller, tokenProgram);
+    const treasury = await this.getTreasury(escrowAccount, tokenProgram);
+    const { preInstructions, postInstructions } = this.payoutInstructions(
+      authority.publicKey,
+      escrowAccount.seller,
+      escrowAccount.mint,
+      sellerTokenAccount,
+      tokenProgram,
+      treasury
+    );
+
+    const recipients = await this.recipientAccounts(escrowAccount, tokenProgram, authority.publicKey);
+
+    // The program reads the verify instruction right before its own
+    const verifyInstruction = createAttestationInstruction(
+      escrowAccount.attestor,
+      escrow,
+      Uint8Array.from(escrowAccount.conditionHash),
+      attestationSignature
+    );
+
+    const signature = await this.send(
+      this.program.methods
+        .releaseWithAttestation()
+        .accounts({
+          escrow,
+          vault,
+          authority: authority.publicKey,
+          sellerTokenAccount,
+          config: this.getConfigPDA(),
+          treasuryTokenAccount: treasury.tokenAccount,
+          mint: escrowAccount.mint,
+          tokenProgram,
+        })
+        .remainingAccounts(recipients.remainingAccounts)
+        .preInstructions([...preInstructions, ...recipients.preInstructions, verifyInstruction])
+        .postInstructions(postInstructions),
+      [authority]
+    );
+
+    return signature;
+  }
+
+  /**
+   * Let `config.delegate` release and/or cancel on behalf of `party` (the
+   * buyer, seller or arbiter), replacing any delegate `party` set before
+   */
+  async setDelegate(
+    party: EscrowSigner,
+    escrow: web3.PublicKey,
+    config: DelegateConfig
+  ): Promise<string> {
+    const actions = config.actions.reduce((flags, action) => flags | DELEGATE_ACTION_FLAGS[action], 0);
+
+    const signature = await this.send(
+      this.program.methods
+        .setDelegate(config.delegate, config.expiresAt || null, actions)
+        .accounts({
+          escrow,
+          authority: party.publicKey,
+        }),
+      [party]
+    );
+
+    return signature;
+  }
+
+  /**
+   * Remove the delegate registered by `party`
+   */
+  async revokeDelegate(
+    party: EscrowSigner,
+    escrow: web3.PublicKey
+  ): Promise<string> {
+    const signature = await this.send(
+      this.program.methods
+        .revokeDelegate()
+        .accounts({
+          escrow,
+          authority: party.publicKey,
+        }),
+      [party]
+    );
+
+    return signature;
+  }
+
+  /**
+   * The party `signer` acts for when taking `action`, the same way the
+   * program resolves it: the registering party for an unexpired delegate
+   * with that action, otherwise the signer itself
+   */
+  actingParty(
+    escrowInfo: EscrowInfo,
+    signer: web3.PublicKey,
+    action: DelegateAction,
+    now: number = Math.floor(Date.now() / 1000)
+  ): web3.PublicKey {
+    const delegate = escrowInfo.delegates.find(d =>
+      d.delegate.equals(signer) &&
+      d.actions.includes(action) &&
+      (!d.expiresAt || now < d.expiresAt.toNumber())
+    );
+
+    return delegate ? delegate.party : signer;
+  }
+
+  /**
+   * Make an unfunded escrow vest linearly to the seller
+   */
+  async setVesting(
+    buyer: EscrowSigner,
+    escrow: web3.PublicKey,
+    vesting: VestingConfig
+  ): Promise<string> {
+    const signature = await this.send(
+      this.program.methods
+        .setVesting(vesting.startTs, vesting.endTs, vesting.cliffTs || null)
+        .accounts({
+          escrow,
+          authority: buyer.publicKey,
+        }),
+      [buyer]
+    );
+
+    return signature;
+  }
+
+  /**
+   * Withdraw everything vested so far as the seller
+   */
+  async withdrawVested(
+    seller: EscrowSigner,
+    escrow: web3.PublicKey
+  ): Promise<string> {
+    const escrowAccount = await this.program.account.escrowAccount.fetch(escrow);
+    const { vault } = this.generateEscrowPDAs(escrowAccount.buyer, escrowAccount.escrowSeed);
+    const tokenProgram = await this.getTokenProgram(escrowAccount.mint);
+
+    const sellerTokenAccount = await this.payoutAccount(escrowAccount, escrowAccount.seller, tokenProgram);
+    const treasury = await this.getTreasury(escrowAccount, tokenProgram);
+    const { preInstructions, postInstructions } = this.payoutInstructions(
+      seller.publicKey,
+      escrowAccount.seller,
+      escrowAccount.mint,
+      sellerTokenAccount,
+      tokenProgram,
+      treasury
+    );
+
+    const recipients = await this.recipientAccounts(escrowAccount, tokenProgram, seller.publicKey);
+
+    const signature = await this.send(
+      this.program.methods
+        .withdrawVested()
+        .accounts({
+          escrow,
+          vault,
+          authority: seller.publicKey,
+          sellerTokenAccount,
+          config: this.getConfigPDA(),
+          treasuryTokenAccount: treasury.tokenAccount,
+          mint: escrowAccount.mint,
+          tokenProgram,
+        })
+        .remainingAccounts(recipients.remainingAccounts)
+        .preInstructions([...preInstructions, ...recipients.preInstructions])
+        .postInstructions(postInstructions),
+      [seller]
+    );
+
+    return signature;
+  }
+
+  /**
+   * Amount vested to the seller at `now` (Unix seconds), the same way the
+   * program computes it. Vesting stops at the cancellation time; subtract
+   * `releasedAmount` for what the seller can still withdraw.
+   */
+  computeVested(escrowInfo: EscrowInfo, now: number = Math.floor(Date.now() / 1000)): BN {
+    const { vesting } = escrowInfo;
+    if (!vesting) return new BN(0);
+
+    const at = escrowInfo.cancelledAt ? Math.min(now, escrowInfo.cancelledAt.toNumber()) : now;
+    if (at < vesting.cliffTs.toNumber()) return new BN(0);
+    if (at >= vesting.endTs.toNumber()) return escrowInfo.depositedAmount;
+
+    return escrowInfo.depositedAmount
+      .mul(new BN(at).sub(vesting.startTs))
+      .div(vesting.endTs.sub(vesting.startTs));
+  }
+
+  /**
+   * Turn an unfunded escrow into a two-sided swap
+   */
+  async enableSwap(
+    buyer: EscrowSigner,
+    escrow: web3.PublicKey,
+    counterAsset: CounterAssetConfig
+  ): Promise<string> {
+    const escrowAccount = await this.program.account.escrowAccount.fetch(escrow);
+
+    const signature = await this.send(
+      this.program.methods
+        .enableSwap(counterAsset.amount)
+        .accounts({
+          escrow,
+          counterVault: this.getCounterVaultPDA(escrowAccount.buyer, escrowAccount.escrowSeed),
+          buyer: buyer.publicKey,
+          counterMint: counterAsset.mint,
+          counterTokenProgram: await this.getTokenProgram(counterAsset.mint),
+        }),
+      [buyer]
+    );
+
+    return signature;
+  }
+
+  /**
+   * Deposit the seller's side of a swap escrow
+   */
+  async depositCounterAsset(
+    seller: EscrowSigner,
+    escrow: web3.PublicKey
+  ): Promise<string> {
+    const { escrowAccount, counterVault, counterMint, counterTokenProgram } =
+      await this.counterAssetAccounts(escrow);
+
+    const sellerCounterTokenAccount = await getAssociatedTokenAddress(
+      counterMint,
+      seller.publicKey,
+      false,
+      counterTokenProgram
+    );
+
+    const signature = await this.send(
+      this.program.methods
+        .depositCounterAsset()
+        .accounts({
+          escrow,
+          counterVault,
+          seller: seller.publicKey,
+          sellerCounterTokenAccount,
+          counterMint,
+          config: this.getConfigPDA(),
+          counterTokenProgram,
+        }),
+      [seller]
+    );
+
+    return signature;
+  }
+
+  /**
+   * Swap both deposits once buyer and seller have funded. Anyone can call
+   * this; the caller opens the buyer's counter asset account if needed.
+   */
+  async settleSwap(
+    authority: EscrowSigner,
+    escrow: web3.PublicKey
+  ): Promise<string> {
+    const { escrowAccount, counterVault, counterMint, counterTokenProgram } =
+      await this.counterAssetAccounts(escrow);
+    const { vault } = this.generateEscrowPDAs(escrowAccount.buyer, escrowAccount.escrowSeed);
+    const tokenProgram = await this.getTokenProgram(escrowAccount.mint);
+
+    const sellerTokenAccount = await this.payoutAccount(escrowAccount, escrowAccount.seller, tokenProgram);
+    const buyerCounterTokenAccount = await getAssociatedTokenAddress(
+      counterMint,
+      escrowAccount.buyer,
+      false,
+      counterTokenProgram
+    );
+    const treasury = await this.getTreasury(escrowAccount, tokenProgram);
+    const { preInstructions, postInstructions } = this.payoutInstructions(
+      authority.publicKey,
+      escrowAccount.seller,
+      escrowAccount.mint,
+      sellerTokenAccount,
+      tokenProgram,
+      treasury
+    );
+    preInstructions.push(
+      createAssociatedTokenAccountIdempotentInstruction(
+        authority.publicKey,
+        buyerCounterTokenAccount,
+        escrowAccount.buyer,
+        counterMint,
+        counterTokenProgram
+      )
+    );
+
+    const recipients = await this.recipientAccounts(escrowAccount, tokenProgram, authority.publicKey);
+
+    const signature = await this.send(
+      this.program.methods
+        .settleSwap()
+        .accounts({
+          escrow,
+          vault,
+          counterVault,
+          authority: authority.publicKey,
+          sellerTokenAccount,
+          buyerCounterTokenAccount,
+          config: this.getConfigPDA(),
+          treasuryTokenAccount: treasury.tokenAccount,
+          mint: escrowAccount.mint,
+          counterMint,
+          tokenProgram,
+          counterTokenProgram,
+        })
+        .remainingAccounts(recipients.remainingAccounts)
+        .preInstructions([...preInstructions, ...recipients.preInstructions])
+        .postInstructions(postInstructions),
+      [authority]
+    );
+
+    return signature;
+  }
+
+  /**
+   * Take the seller's counter asset back while the buyer hasn't funded, or
+   * after the escrow was cancelled or resolved without the swap
+   */
+  async withdrawCounterAsset(
+    seller: EscrowSigner,
+    escrow: web3.PublicKey
+  ): Promise<string> {
+    const { counterVault, counterMint, counterTokenProgram } =
+      await this.counterAssetAccounts(escrow);
+
+    const sellerCounterTokenAccount = await getAssociatedTokenAddress(
+      counterMint,
+      seller.publicKey,
+      false,
+      counterTokenProgram
+    );
+
+    const signature = await this.send(
+      this.program.methods
+        .withdrawCounterAsset()
+        .accounts({
+          escrow,
+          counterVault,
+          seller: seller.publicKey,
+          sellerCounterTokenAccount,
+          counterMint,
+          counterTokenProgram,
+        }),
+      [seller]
+    );
+
+    return signature;
+  }
+
+  /**
+   * Build an unsigned `extend_timeout` transaction. For a buyer and seller
+   * extension, one party `partialSign`s it and passes the serialized
+   * transaction to the other, who signs and sends it (see
+   * `signAndSendPartialTransaction`). The arbiter can extend alone.
+   */
+  async buildExtendTimeoutTransaction(
+    escrow: web3.PublicKey,
+    newTimeoutAt: BN,
+    authority: web3.PublicKey,
+    coSigner?: web3.PublicKey
+  ): Promise<web3.Transaction> {
+    const transaction = await this.program.methods
+      .extendTimeout(newTimeoutAt)
+      .accounts({
+        escrow,
+        authority,
+        coSigner: coSigner ?? null,
+      })
+      .transaction();
+
+    const { blockhash } = await this.provider.connection.getLatestBlockhash();
+    transaction.recentBlockhash = blockhash;
+    transaction.feePayer = authority;
+
+    return transaction;
+  }
+
+  /**
+   * Extend the timeout of a funded escrow when all required keypairs are at hand
+   * (the arbiter alone, or buyer and seller together). The provider's wallet
+   * pays the fee, as for every other method.
+   */
+  async extendTimeout(
+    authority: EscrowSigner,
+    escrow: web3.PublicKey,
+    newTimeoutAt: BN,
+    coSigner?: EscrowSigner
+  ): Promise<string> {
+    const signature = await this.send(
+      this.program.methods
+        .extendTimeout(newTimeoutAt)
+        .accounts({
+          escrow,
+          authority: authority.publicKey,
+          coSigner: coSigner?.publicKey ?? null,
+        }),
+      coSigner ? [authority, coSigner] : [authority]
+    );
+
+    return signature;
+  }
+
+  /**
+   * Add a signature to a transaction serialized by another party and submit it
+   */
+  async signAndSendPartialTransaction(
+    serialized: Buffer,
+    signer: EscrowSigner
+  ): Promise<string> {
+    let transaction = web3.Transaction.from(serialized);
+    if (isKeypair(signer)) {
+      transaction.partialSign(signer);
+    } else {
+      transaction = await signer.signTransaction(transaction);
+    }
+
+    try {
+      const signature = await this.provider.connection.sendRawTransaction(
+        transaction.serialize()
+      );
+      await this.provider.connection.confirmTransaction(signature);
+
+      return signature;
+    } catch (error) {
+      throw this.toClientError(error);
+    }
+  }
+
+  /**
+   * Instructions for `raiseDispute`, to sign and send elsewhere
+   */
+  async buildRaiseDisputeIx(
+    authority: web3.PublicKey,
+    escrow: web3.PublicKey
+  ): Promise<web3.TransactionInstruction[]> {
+    return this.instructionsOf(
+      this.program.methods
+        .raiseDispute()
+        .accounts({
+          escrow,
+          authority,
+        })
+    );
+  }
+
+  /**
+   * Raise a dispute on a funded escrow (buyer or seller)
+   */
+  async raiseDispute(
+    authority: EscrowSigner,
+    escrow: web3.PublicKey
+  ): Promise<string> {
+    return this.send(await this.buildRaiseDisputeIx(authority.publicKey, escrow), [authority]);
+  }
+
+  /**
+   * Instructions for `resolveDispute`, to sign and send elsewhere
+   */
+  async buildResolveDisputeIx(
+    arbiter: web3.PublicKey,
+    escrow: web3.PublicKey,
+    buyerShareBps: number
+  ): Promise<web3.TransactionInstruction[]> {
+    const { accounts, remainingAccounts, preInstructions } = await this.rulingAccounts(
+      escrow,
+      arbiter
+    );
+
+    return this.instructionsOf(
+      this.program.methods
+        .resolveDispute(buyerShareBps)
+        .accounts(accounts)
+        .remainingAccounts(remainingAccounts)
+        .preInstructions(preInstructions)
+    );
+  }
+
+  /**
+   * Resolve a dispute, sending `buyerShareBps` of the remaining funds to the
+   * buyer and the rest to the seller
+   */
+  async resolveDispute(
+    arbiter: EscrowSigner,
+    escrow: web3.PublicKey,
+    buyerShareBps: number
+  ): Promise<string> {
+    return this.send(
+      await this.buildResolveDisputeIx(arbiter.publicKey, escrow, buyerShareBps),
+      [arbiter]
+    );
+  }
+
+  /**
+   * Choose the arbiter panel of an escrow and how many members must agree
+   * on a ruling (empty panel with threshold 0 removes it)
+   */
+  async setArbiterPanel(
+    buyer: EscrowSigner,
+    escrow: web3.PublicKey,
+    arbiters: web3.PublicKey[],
+    threshold: number
+  ): Promise<string> {
+    const signature = await this.send(
+      this.program.methods
+        .setArbiterPanel(arbiters, threshold)
+        .accounts({
+          escrow,
+          authority: buyer.publicKey,
+        }),
+      [buyer]
+    );
+
+    return signature;
+  }
+
+  /**
+   * Vote on a disputed escrow as a panel member. The vote that reaches the
+   * threshold also pays out the agreed split.
+   */
+  async castArbiterVote(
+    arbiter: EscrowSigner,
+    escrow: web3.PublicKey,
+    vote: DisputeVote
+  ): Promise<string> {
+    const { accounts, remainingAccounts, preInstructions } = await this.rulingAccounts(
+      escrow,
+      arbiter.publicKey
+    );
+    const encoded: EscrowIdlTypes["disputeVote"] =
+      vote === "release"
+        ? { release: {} }
+        : vote === "refund"
+          ? { refund: {} }
+          : { split: { buyerShareBps: vote.split } };
+
+    const signature = await this.send(
+      this.program.methods
+        .castArbiterVote(encoded)
+        .accounts(accounts)
+        .remainingAccounts(remainingAccounts)
+        .preInstructions(preInstructions),
+      [arbiter]
+    );
+
+    return signature;
+  }
+
+  /**
+   * Panel, threshold and votes cast so far on an escrow
+   */
+  async getArbiterVotes(escrow: web3.PublicKey): Promise<ArbiterVotes> {
+    const info = await this.getEscrowInfo(escrow);
+
+    return {
+      panel: info.arbiterPanel,
+      threshold: info.arbiterThreshold,
+      votes: info.arbiterVotes,
+      tally: this.tallyArbiterVotes(info.arbiterVotes),
+    };
+  }
+
+  /**
+   * Count votes per outcome; votes agree when they give the buyer the same share
+   */
+  tallyArbiterVotes(votes: ArbiterVoteInfo[]): ArbiterVoteTally[] {
+    const tally: ArbiterVoteTally[] = [];
+    for (const vote of votes) {
+      const entry = tally.find(t => t.buyerShareBps === vote.buyerShareBps);
+      if (entry) {
+        entry.votes += 1;
+      } else {
+        tally.push({ buyerShareBps: vote.buyerShareBps, votes: 1 });
+      }
+    }
+
+    return tally.sort((a, b) => b.votes - a.votes);
+  }
+
+  /**
+   * Counter vault, mint and token program of a swap escrow
+   */
+  private async counterAssetAccounts(escrow: web3.PublicKey) {
+    const escrowAccount = await this.program.account.escrowAccount.fetch(escrow);
+    if (!escrowAccount.counterMint) {
+      throw new Error("Escrow is not a swap escrow");
+    }
+
+    return {
+      escrowAccount,
+      counterVault: this.getCounterVaultPDA(escrowAccount.buyer, escrowAccount.escrowSeed),
+      counterMint: escrowAccount.counterMint,
+      counterTokenProgram: await this.getTokenProgram(escrowAccount.counterMint),
+    };
+  }
+
+  /**
+   * Accounts for instructions that pay out a dispute ruling
+   */
+  private async rulingAccounts(escrow: web3.PublicKey, authority: web3.PublicKey) {
+    const escrowAccount = await this.program.account.escrowAccount.fetch(escrow);
+    const { vault } = this.generateEscrowPDAs(escrowAccount.buyer, escrowAccount.escrowSeed);
+    const tokenProgram = await this.getTokenProgram(escrowAccount.mint);
+
+    const buyerTokenAccount = await this.payoutAccount(escrowAccount, escrowAccount.buyer, tokenProgram);
+    const sellerTokenAccount = await this.payoutAccount(escrowAccount, escrowAccount.seller, tokenProgram);
+    const treasury = await this.getTreasury(escrowAccount, tokenProgram);
+
+    const recipients = await this.recipientAccounts(escrowAccount, tokenProgram, authority);
+
+    // A ruling can pay either side, so open both token accounts, and the fee
+    // may be the first the treasury receives in this mint. Native SOL goes
+    // to the wallets themselves.
+    const preInstructions = escrowAccount.holdsLamports ? [] : [
+      createAssociatedTokenAccountIdempotentInstruction(
+        authority,
+        treasury.tokenAccount,
+        treasury.owner,
+        escrowAccount.mint,
+        tokenProgram
+      ),
+      createAssociatedTokenAccountIdempotentInstruction(
+        authority,
+        buyerTokenAccount,
+        escrowAccount.buyer,
+        escrowAccount.mint,
+        tokenProgram
+      ),
+      createAssociatedTokenAccountIdempotentInstruction(
+        authority,
+        sellerTokenAccount,
+        escrowAccount.seller,
+        escrowAccount.mint,
+        tokenProgram
+      ),
+    ];
+    preInstructions.push(...recipients.preInstructions);
+
+    return {
+      accounts: {
+        escrow,
+        vault,
+        authority,
+        buyerTokenAccount,
+        sellerTokenAccount,
+        config: this.getConfigPDA(),
+        treasuryTokenAccount: treasury.tokenAccount,
+        mint: escrowAccount.mint,
+        tokenProgram,
+      },
+      remainingAccounts: recipients.remainingAccounts,
+      preInstructions,
+    };
+  }
+
+  /**
+   * Set arbiter for dispute resolution
+   */
+  async setArbiter(
+    buyer: EscrowSigner,
+    escrow: web3.PublicKey,
+    arbiter: web3.PublicKey
+  ): Promise<string> {
+    const signature = await this.send(
+      this.program.methods
+        .setArbiter(arbiter)
+        .accounts({
+          escrow,
+          authority: buyer.publicKey,
+        }),
+      [buyer]
+    );
+
+    return signature;
+  }
+
+  /**
+   * Update release conditions
+   */
+  async updateConditions(
+    buyer: EscrowSigner,
+    escrow: web3.PublicKey,
+    newConditions: string
+  ): Promise<string> {
+    const signature = await this.send(
+      this.program.methods
+        .updateConditions(newConditions)
+        .accounts({
+          escrow,
+          authority: buyer.publicKey,
+        }),
+      [buyer]
+    );
+
+    return signature;
+  }
+
+  /**
+   * Point an unfunded terms escrow at a new document
+   */
+  async updateTerms(
+    buyer: EscrowSigner,
+    escrow: web3.PublicKey,
+    terms: TermsConfig
+  ): Promise<string> {
+    const signature = await this.send(
+      this.program.methods
+        .updateTerms(Array.from(terms.hash), terms.uri)
+        .accounts({
+          escrow,
+          authority: buyer.publicKey,
+        }),
+      [buyer]
+    );
+
+    return signature;
+  }
+
+  /**
+   * Check a terms document against the hash stored on the escrow
+   */
+  async verifyTermsDocument(
+    escrowInfo: EscrowInfo,
+    document: string | Uint8Array
+  ): Promise<boolean> {
+    if (!escrowInfo.termsHash) {
+      throw new Error("Escrow has no terms document");
+    }
+    const hash = await hashTermsDocument(document);
+    return hash.equals(escrowInfo.termsHash);
+  }
+
+  /**
+   * Download the terms document from the escrow's URI and return it only if
+   * it matches the on-chain hash. Pass `fetcher` where there is no global
+   * `fetch`, as on Node before 18.
+   */
+  async fetchVerifiedTerms(
+    escrowInfo: EscrowInfo,
+    fetcher: TermsFetcher = fetch
+  ): Promise<Uint8Array> {
+    if (!escrowInfo.termsHash || !escrowInfo.termsUri) {
+      throw new Error("Escrow has no terms document");
+    }
+
+    const response = await fetcher(escrowInfo.termsUri);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch terms from ${escrowInfo.termsUri}: ${response.status}`);
+    }
+    const document = new Uint8Array(await response.arrayBuffer());
+    if (!(await this.verifyTermsDocument(escrowInfo, document))) {
+      throw new Error("Terms document does not match the on-chain hash");
+    }
+
+    return document;
+  }
+
+  /**
+   * Amend the amount, timeout or seller of an unfunded escrow
+   */
+  async amendEscrow(
+    buyer: EscrowSigner,
+    escrow: web3.PublicKey,
+    amendment: EscrowAmendment
+  ): Promise<string> {
+    const postInstructions: web3.TransactionInstruction[] = [];
+    if (amendment.milestones && amendment.milestones.length > 0) {
+      postInstructions.push(
+        await this.program.methods
+          .setMilestones(amendment.milestones)
+          .accounts({
+            escrow,
+            authority: buyer.publicKey,
+          })
+          .instruction()
+      );
+    }
+
+    const signature = await this.send(
+      this.program.methods
+        .amendEscrow(
+          amendment.amount ?? null,
+          amendment.timeoutAt ?? null,
+          amendment.seller ?? null
+        )
+        .accounts({
+          escrow,
+          authority: buyer.publicKey,
+        })
+        .postInstructions(postInstructions),
+      [buyer]
+    );
+
+    return signature;
+  }
+
+  /**
+   * Replace the milestones of an unfunded escrow (empty list removes them)
+   */
+  async setMilestones(
+    buyer: EscrowSigner,
+    escrow: web3.PublicKey,
+    milestones: MilestoneConfig[]
+  ): Promise<string> {
+    const signature = await this.send(
+      this.program.methods
+        .setMilestones(milestones)
+        .accounts({
+          escrow,
+          authority: buyer.publicKey,
+        }),
+      [buyer]
+    );
+
+    return signature;
+  }
 
-      return {
-        escrow: escrow.publicKey,
-        vault,
-        buyer: account.buyer,
-        seller: account.seller,
-        mint: account.mint,
-        amount: account.amount,
-        state: Object.keys(account.state)[0],
-        releaseConditions: account.releaseConditions,
-        createdAt: account.createdAt,
-        fundedAt: account.fundedAt,
-        timeoutAt: account.timeoutAt,
-        releasedAt: account.releasedAt,
-        cancelledAt: account.cancelledAt,
-        arbiter: account.arbiter,
-      };
+  /**
+   * Split seller payouts of an unfunded escrow between recipients (empty list
+   * pays the seller alone)
+   */
+  async setRecipients(
+    buyer: EscrowSigner,
+    escrow: web3.PublicKey,
+    recipients: RecipientConfig[]
+  ): Promise<string> {
+    const signature = await this.send(
+      this.program.methods
+        .setRecipients(recipients)
+        .accounts({
+          escrow,
+          authority: buyer.publicKey,
+        }),
+      [buyer]
+    );
+
+    return signature;
+  }
+
+  /**
+   * Instructions for `closeEscrow`, to sign and send elsewhere
+   */
+  async buildCloseEscrowIx(
+    buyer: web3.PublicKey,
+    escrow: web3.PublicKey
+  ): Promise<web3.TransactionInstruction[]> {
+    return this.instructionsOf(
+      this.program.methods
+        .closeEscrow()
+        .accounts({
+          escrow,
+          authority: buyer,
+        })
+    );
+  }
+
+  /**
+   * Close escrow account and recover rent
+   */
+  async closeEscrow(
+    buyer: EscrowSigner,
+    escrow: web3.PublicKey
+  ): Promise<string> {
+    return this.send(await this.buildCloseEscrowIx(buyer.publicKey, escrow), [buyer]);
+  }
+
+  /**
+   * Upgrade an escrow created before account versioning to the current
+   * layout. Anyone can migrate an escrow; the payer covers the extra rent.
+   */
+  async migrateEscrow(
+    payer: EscrowSigner,
+    escrow: web3.PublicKey
+  ): Promise<string> {
+    const signature = await this.send(
+      this.program.methods
+        .migrateEscrow()
+        .accounts({
+          escrow,
+          payer: payer.publicKey,
+        }),
+      [payer]
+    );
+
+    return signature;
+  }
+
+  /**
+   * Create the program configuration (must be signed by the upgrade authority)
+   */
+  async initializeConfig(
+    admin: EscrowSigner,
+    feeBps: number,
+    treasury: web3.PublicKey
+  ): Promise<string> {
+    const [programData] = web3.PublicKey.findProgramAddressSync(
+      [this.program.programId.toBuffer()],
+      BPF_LOADER_UPGRADEABLE_PROGRAM_ID
+    );
+
+    const signature = await this.send(
+      this.program.methods
+        .initializeConfig(feeBps, treasury)
+        .accounts({
+          config: this.getConfigPDA(),
+          admin: admin.publicKey,
+          program: this.program.programId,
+          programData,
+        }),
+      [admin]
+    );
+
+    return signature;
+  }
+
+  /**
+   * Update the protocol fee, treasury or admin
+   */
+  async updateConfig(
+    admin: EscrowSigner,
+    update: ConfigUpdate
+  ): Promise<string> {
+    const signature = await this.send(
+      this.program.methods
+        .updateConfig(
+          update.feeBps ?? null,
+          update.treasury ?? null,
+          update.admin ?? null
+        )
+        .accounts({
+          config: this.getConfigPDA(),
+          admin: admin.publicKey,
+        }),
+      [admin]
+    );
+
+    return signature;
+  }
+
+  /**
+   * Get the program configuration
+   */
+  async getConfig(): Promise<ProgramConfig> {
+    const config = this.getConfigPDA();
+    const account = await this.program.account.config.fetch(config);
+
+    return {
+      config,
+      admin: account.admin,
+      feeBps: account.feeBps,
+      treasury: account.treasury,
+      paused: account.paused,
+    };
+  }
+
+  /**
+   * Block new escrows and deposits (admin only). Cancels, releases and
+   * settlements keep working so funds can always leave the program.
+   */
+  async pause(admin: EscrowSigner): Promise<string> {
+    return this.setPaused(admin, true);
+  }
+
+  /**
+   * Allow new escrows and deposits again (admin only)
+   */
+  async unpause(admin: EscrowSigner): Promise<string> {
+    return this.setPaused(admin, false);
+  }
+
+  /**
+   * Whether new escrows and deposits are currently blocked
+   */
+  async getPauseStatus(): Promise<boolean> {
+    const { paused } = await this.getConfig();
+    return paused;
+  }
+
+  private async setPaused(admin: EscrowSigner, paused: boolean): Promise<string> {
+    const signature = await this.send(
+      this.program.methods
+        .setPaused(paused)
+        .accounts({
+          config: this.getConfigPDA(),
+          admin: admin.publicKey,
+        }),
+      [admin]
+    );
+
+    return signature;
+  }
+
+  /**
+   * Treasury wallet and the account that receives its protocol fee from an escrow
+   */
+  private async getTreasury(
+    escrowAccount: PayoutAsset,
+    tokenProgram: web3.PublicKey
+  ): Promise<{ owner: web3.PublicKey; tokenAccount: web3.PublicKey }> {
+    const { treasury } = await this.getConfig();
+    return {
+      owner: treasury,
+      tokenAccount: await this.payoutAccount(escrowAccount, treasury, tokenProgram),
+    };
+  }
+
+  /**
+   * Account that receives `owner`'s payouts from an escrow: their token
+   * account for its mint, or their wallet itself when the escrow holds
+   * native SOL as lamports
+   */
+  private async payoutAccount(
+    escrowAccount: PayoutAsset,
+    owner: web3.PublicKey,
+    tokenProgram: web3.PublicKey
+  ): Promise<web3.PublicKey> {
+    if (escrowAccount.holdsLamports) {
+      return owner;
+    }
+    return getAssociatedTokenAddress(escrowAccount.mint, owner, true, tokenProgram);
+  }
+
+  /**
+   * Token program owning a mint (classic SPL Token or Token-2022)
+   */
+  async getTokenProgram(mint: web3.PublicKey): Promise<web3.PublicKey> {
+    const mintInfo = await this.provider.connection.getAccountInfo(mint);
+    if (!mintInfo) {
+      throw new Error(`Mint ${mint.toBase58()} not found`);
+    }
+    if (!mintInfo.owner.equals(TOKEN_PROGRAM_ID) && !mintInfo.owner.equals(TOKEN_2022_PROGRAM_ID)) {
+      throw new Error(`Mint ${mint.toBase58()} is not owned by a token program`);
+    }
+
+    return mintInfo.owner;
+  }
+
+  /**
+   * Get escrow information
+   */
+  async getEscrowInfo(escrow: web3.PublicKey): Promise<EscrowInfo> {
+    const accountInfo = await this.provider.connection.getAccountInfo(escrow);
+    if (!accountInfo) {
+      throw new Error(`Escrow ${escrow.toString()} not found`);
+    }
+    return this.toEscrowInfo(escrow, this.decodeEscrowAccount(accountInfo.data));
+  }
+
+  /**
+   * Get per-milestone progress of an escrow
+   */
+  async getMilestones(escrow: web3.PublicKey): Promise<MilestoneInfo[]> {
+    const { milestones } = await this.getEscrowInfo(escrow);
+    return milestones;
+  }
+
+  /**
+   * Get all escrows for a buyer
+   */
+  async getEscrowsForBuyer(buyer: web3.PublicKey): Promise<EscrowInfo[]> {
+    const escrows = await this.allEscrowAccounts({ buyer });
+
+    return escrows.map(escrow => this.toEscrowInfo(escrow.publicKey, escrow.account));
+  }
+
+  /**
+   * Get all escrows for a seller. Matching recipients downloads every escrow
+   * the program owns, so on a busy cluster prefer an indexer for that part.
+   */
+  async getEscrowsForSeller(seller: web3.PublicKey): Promise<EscrowInfo[]> {
+    const direct = await this.allEscrowAccounts({ seller });
+
+    // Recipients sit after variable-length fields, so they can't be matched
+    // with a memcmp filter. Legacy escrows have none, so only the current
+    // layout is scanned for them.
+    const asRecipient = (await this.program.account.escrowAccount.all()).filter(
+      ({ account }) =>
+        !account.seller.equals(seller) &&
+        account.recipients.some(recipient => recipient.wallet.equals(seller))
+    );
+
+    return [...direct, ...asRecipient].map(escrow =>
+      this.toEscrowInfo(escrow.publicKey, escrow.account)
+    );
+  }
+
+  /**
+   * Get all escrows a key is a delegate on
+   */
+  async getEscrowsForDelegate(delegate: web3.PublicKey): Promise<EscrowInfo[]> {
+    // Delegates came after the legacy layout, so only current escrows can have them
+    const escrows = await this.program.account.escrowAccount.all();
+
+    return escrows
+      .filter(({ account }) => account.delegates.some(d => d.delegate.equals(delegate)))
+      .map(escrow => this.toEscrowInfo(escrow.publicKey, escrow.account));
+  }
+
+  /**
+   * Escrow accounts in both layouts of one buyer or one seller
+   */
+  private async allEscrowAccounts(
+    party: { buyer: web3.PublicKey } | { seller: web3.PublicKey }
+  ): Promise<{ publicKey: web3.PublicKey; account: EscrowAccountData }[]> {
+    // The buyer and then the seller follow the discriminator, and the
+    // version byte in the current layout
+    const key = "buyer" in party ? party.buyer : party.seller;
+    const offset = "buyer" in party ? 8 : 40;
+    const partyFilter = (versionBytes: number) => ({
+      memcmp: { offset: offset + versionBytes, bytes: key.toBase58() },
+    });
+
+    const current = await this.program.account.escrowAccount.all([partyFilter(1)]);
+    const legacy = await this.provider.connection.getProgramAccounts(this.program.programId, {
+      filters: [
+        { memcmp: { offset: 0, bytes: anchor.utils.bytes.bs58.encode(LEGACY_ESCROW_DISCRIMINATOR) } },
+        partyFilter(0),
+      ],
     });
+
+    return [
+      ...current,
+      ...legacy.map(({ pubkey, account }) => ({
+        publicKey: pubkey,
+        account: this.decodeEscrowAccount(account.data),
+      })),
+    ];
+  }
+
+  /**
+   * Decode an escrow in either layout. Legacy escrows report version 0 and
+   * the values `migrate_escrow` would give the fields they lack.
+   */
+  private decodeEscrowAccount(data: Buffer): EscrowAccountData {
+    if (!data.subarray(0, 8).equals(LEGACY_ESCROW_DISCRIMINATOR)) {
+      return this.program.coder.accounts.decode<EscrowAccountData>("escrowAccount", data);
+    }
+
+    const legacy = this.legacyCoder.types.decode<LegacyEscrowAccountData>(
+      "legacyEscrowAccount",
+      data.subarray(8)
+    );
+    // The original program deposited the full amount and paid it all out on release or cancel
+    const depositedAmount = legacy.fundedAt !== null ? legacy.amount : new BN(0);
+    const settled = legacy.state.released !== undefined || legacy.state.cancelled !== undefined;
+
+    return {
+      ...legacy,
+      version: 0,
+      milestones: [],
+      releasedAmount: settled ? depositedAmount : new BN(0),
+      depositedAmount,
+      disputedAt: null,
+      disputedBy: null,
+      resolvedAt: null,
+      requiresAcceptance: false,
+      acceptedAt: null,
+      timeoutPolicy: { releaseToSeller: {} },
+      recipients: [],
+      arbiterPanel: [],
+      arbiterThreshold: 0,
+      arbiterVotes: [],
+      counterMint: null,
+      counterAmount: new BN(0),
+      counterDepositedAmount: new BN(0),
+      counterVaultBump: 0,
+      vesting: null,
+      delegates: [],
+      attestor: null,
+      conditionHash: new Array(32).fill(0),
+      hashLock: null,
+      termsHash: null,
+      termsUri: "",
+      holdsLamports: false,
+      reserved: new Array(63).fill(0),
+    };
+  }
+
+  /**
+   * Map a decoded escrow account to EscrowInfo
+   */
+  private toEscrowInfo(escrow: web3.PublicKey, account: EscrowAccountData): EscrowInfo {
+    const { vault } = this.generateEscrowPDAs(account.buyer, account.escrowSeed);
+
+    return {
+      version: account.version,
+      escrow,
+      vault,
+      buyer: account.buyer,
+      seller: account.seller,
+      mint: account.mint,
+      amount: account.amount,
+      state: Object.keys(account.state)[0],
+      releaseConditions: account.releaseConditions,
+      createdAt: account.createdAt,
+      fundedAt: account.fundedAt ?? undefined,
+      timeoutAt: account.timeoutAt ?? undefined,
+      releasedAt: account.releasedAt ?? undefined,
+      cancelledAt: account.cancelledAt ?? undefined,
+      arbiter: account.arbiter ?? undefined,
+      milestones: account.milestones.map((milestone, index) => ({
+        index,
+        amount: milestone.amount,
+        description: milestone.description,
+        released: milestone.released,
+        releasedAt: milestone.releasedAt ?? undefined,
+      })),
+      depositedAmount: account.depositedAmount,
+      releasedAmount: account.releasedAmount,
+      remainingAmount: account.fundedAt
+        ? account.depositedAmount.sub(account.releasedAmount)
+        : account.amount,
+      disputedAt: account.disputedAt ?? undefined,
+      disputedBy: account.disputedBy ?? undefined,
+      resolvedAt: account.resolvedAt ?? undefined,
+      requiresAcceptance: account.requiresAcceptance,
+      acceptedAt: account.acceptedAt ?? undefined,
+      timeoutPolicy: Object.keys(account.timeoutPolicy)[0] as TimeoutPolicy,
+      recipients: account.recipients,
+      arbiterPanel: account.arbiterPanel,
+      arbiterThreshold: account.arbiterThreshold,
+      arbiterVotes: account.arbiterVotes.map(vote => {
+        const { split } = vote.vote;
+        const kind = Object.keys(vote.vote)[0];
+        const buyerShareBps = split ? split.buyerShareBps : kind === "refund" ? 10000 : 0;
+        return {
+          arbiter: vote.arbiter,
+          vote: split ? { split: buyerShareBps } : (kind as DisputeVote),
+          buyerShareBps,
+          votedAt: vote.votedAt,
+        };
+      }),
+      counterMint: account.counterMint ?? undefined,
+      counterVault: account.counterMint
+        ? this.getCounterVaultPDA(account.buyer, account.escrowSeed)
+        : undefined,
+      counterAmount: account.counterAmount,
+      counterDepositedAmount: account.counterDepositedAmount,
+      vesting: account.vesting ?? undefined,
+      attestor: account.attestor ?? undefined,
+      conditionHash: account.attestor ? Buffer.from(account.conditionHash) : undefined,
+      secretHash: account.hashLock ? Buffer.from(account.hashLock) : undefined,
+      termsHash: account.termsHash ? Buffer.from(account.termsHash) : undefined,
+      termsUri: account.termsUri,
+      delegates: account.delegates.map(delegate => ({
+        party: delegate.party,
+        delegate: delegate.delegate,
+        actions: (Object.keys(DELEGATE_ACTION_FLAGS) as DelegateAction[]).filter(
+          action => delegate.actions & DELEGATE_ACTION_FLAGS[action]
+        ),
+        expiresAt: delegate.expiresAt ?? undefined,
+      })),
+    };
   }
 
   /**
    * Listen to escrow events
    */
-  addEventListener(
-    event: "EscrowCreated" | "EscrowFunded" | "EscrowReleased" | "EscrowCancelled" | "ArbiterSet" | "ConditionsUpdated",
-    callback: (event: any, slot: number, signature: string) => void
+  addEventListener<E extends keyof EscrowEvents>(
+    event: E & string,
+    callback: (event: EscrowEvents[E], slot: number, signature: string) => void
   ): number {
     return this.program.addEventListener(event, callback);
   }
@@ -373,11 +2423,12 @@ export class EscrowClient {
    * Create associated token account if it doesn't exist
    */
   async createAssociatedTokenAccountIfNeeded(
-    payer: web3.Keypair,
+    payer: EscrowSigner,
     owner: web3.PublicKey,
     mint: web3.PublicKey
   ): Promise<{ instruction?: web3.TransactionInstruction; address: web3.PublicKey }> {
-    const address = await getAssociatedTokenAddress(mint, owner);
+    const tokenProgram = await this.getTokenProgram(mint);
+    const address = await getAssociatedTokenAddress(mint, owner, false, tokenProgram);
     
     try {
       const account = await this.provider.connection.getAccountInfo(address);
@@ -392,22 +2443,300 @@ export class EscrowClient {
       payer.publicKey,
       address,
       owner,
-      mint
+      mint,
+      tokenProgram
     );
 
     return { instruction, address };
   }
 
+  /**
+   * Unwrap all wSOL held in the owner's associated token account back to SOL, e.g.
+   * payouts from wSOL escrows migrated from the original layout
+   */
+  async unwrapSol(owner: EscrowSigner): Promise<string> {
+    const wrappedAccount = await getAssociatedTokenAddress(NATIVE_MINT, owner.publicKey);
+    const transaction = new web3.Transaction().add(
+      createCloseAccountInstruction(wrappedAccount, owner.publicKey, owner.publicKey)
+    );
+
+    return this.sendTransaction(transaction, [owner]);
+  }
+
+  /**
+   * Compile instructions into an unsigned v0 transaction, base64 encoded, to
+   * be signed offline or by a multisig. With `nonce` the transaction uses the
+   * durable nonce instead of a recent blockhash, so it stays valid until the
+   * nonce is advanced.
+   */
+  async exportUnsignedTransaction(
+    instructions: web3.TransactionInstruction[],
+    options: { feePayer: web3.PublicKey; nonce?: DurableNonceConfig }
+  ): Promise<string> {
+    let recentBlockhash: string;
+    if (options.nonce) {
+      const nonceAccount = await this.provider.connection.getNonce(options.nonce.account);
+      if (!nonceAccount) {
+        throw new Error(`Nonce account ${options.nonce.account} not found`);
+      }
+      recentBlockhash = nonceAccount.nonce;
+      // The runtime only accepts a nonce when advancing it is the first instruction
+      instructions = [
+        web3.SystemProgram.nonceAdvance({
+          noncePubkey: options.nonce.account,
+          authorizedPubkey: options.nonce.authority,
+        }),
+        ...instructions,
+      ];
+    } else {
+      recentBlockhash = (await this.provider.connection.getLatestBlockhash()).blockhash;
+    }
+
+    const message = new web3.TransactionMessage({
+      payerKey: options.feePayer,
+      recentBlockhash,
+      instructions,
+    }).compileToV0Message();
+
+    return Buffer.from(new web3.VersionedTransaction(message).serialize()).toString("base64");
+  }
+
+  /**
+   * Instructions a method call compiles to, including its pre and post
+   * instructions
+   */
+  private async instructionsOf(method: MethodCall): Promise<web3.TransactionInstruction[]> {
+    return (await method.transaction()).instructions;
+  }
+
+  /**
+   * Sign and send a method call or a list of instructions. Keypairs are
+   * passed to Anchor as extra signers and the provider's wallet signs as fee
+   * payer, so only other wallet signers need a separate signing round.
+   */
+  private async send(
+    method: MethodCall | web3.TransactionInstruction[],
+    signers: EscrowSigner[]
+  ): Promise<string> {
+    try {
+      if (!Array.isArray(method) && this.externalWallets(signers).length === 0) {
+        return await method.signers(signers.filter(isKeypair)).rpc();
+      }
+
+      const transaction = Array.isArray(method)
+        ? new web3.Transaction().add(...method)
+        : await method.transaction();
+      return await this.sendTransaction(transaction, signers);
+    } catch (error) {
+      throw this.toClientError(error);
+    }
+  }
+
+  /**
+   * Sign a transaction with every signer plus the provider's wallet and send it
+   */
+  private async sendTransaction(
+    transaction: web3.Transaction,
+    signers: EscrowSigner[]
+  ): Promise<string> {
+    const keypairs = signers.filter(isKeypair);
+    const wallets = this.externalWallets(signers);
+
+    try {
+      if (wallets.length === 0) {
+        return await this.provider.sendAndConfirm(transaction, keypairs);
+      }
+
+      // Every signature covers the blockhash, so set it before anyone signs
+      transaction.feePayer = transaction.feePayer ?? this.provider.wallet.publicKey;
+      transaction.recentBlockhash = (await this.provider.connection.getLatestBlockhash()).blockhash;
+      keypairs.forEach(keypair => transaction.partialSign(keypair));
+      for (const wallet of wallets) {
+        transaction = await wallet.signTransaction(transaction);
+      }
+      transaction = await this.provider.wallet.signTransaction(transaction);
+
+      return await web3.sendAndConfirmRawTransaction(
+        this.provider.connection,
+        transaction.serialize(),
+        this.provider.opts
+      );
+    } catch (error) {
+      throw this.toClientError(error);
+    }
+  }
+
+  /**
+   * Turn whatever a failed send threw into an `EscrowClientError`: the escrow
+   * program's own error, a token program failure, or a transaction that
+   * could not run at all
+   */
+  private toClientError(thrown: unknown): EscrowClientError {
+    if (thrown instanceof EscrowClientError) return thrown;
+
+    const error: unknown = anchor.translateError(thrown, anchor.parseIdlErrors(this.program.idl));
+
+    if (error instanceof anchor.AnchorError) {
+      const { code, number } = error.error.errorCode;
+      return new EscrowProgramError(code, number, error.error.errorMessage, error.logs, error);
+    }
+    if (error instanceof anchor.ProgramError) {
+      const variant = this.program.idl.errors?.find(e => e.code === error.code);
+      const logs = error.logs ?? [];
+      return new EscrowProgramError(variant?.name ?? String(error.code), error.code, error.msg, logs, error);
+    }
+
+    const logs = error instanceof web3.SendTransactionError ? error.logs ?? [] : [];
+    const description = error instanceof Error ? error.message : String(error);
+
+    // The innermost failing program is the first to report it
+    const failure = logs
+      .map(log => log.match(/^Program (\w+) failed: custom program error: 0x([0-9a-f]+)/))
+      .find(match => match !== null);
+    const tokenPrograms = [TOKEN_PROGRAM_ID.toBase58(), TOKEN_2022_PROGRAM_ID.toBase58()];
+    if (failure && tokenPrograms.includes(failure[1])) {
+      const number = parseInt(failure[2], 16);
+      const [code, message] = TOKEN_ERRORS[number] ?? ["TokenError", `Token program error ${number}`];
+      return new TokenProgramError(code, message, logs, error);
+    }
+
+    const text = [error instanceof Error ? error.name : "", description, ...logs].join("\n");
+    const known = TRANSACTION_ERRORS.find(([pattern]) => pattern.test(text));
+    return known
+      ? new EscrowTransactionError(known[1], known[2], logs, error)
+      : new EscrowTransactionError("TransactionFailed", description, logs, error);
+  }
+
+  /**
+   * Wallet signers other than the provider's own wallet, which signs anyway
+   */
+  private externalWallets(signers: EscrowSigner[]): WalletSigner[] {
+    return signers.filter(
+      (signer): signer is WalletSigner =>
+        !isKeypair(signer) && !signer.publicKey.equals(this.provider.wallet.publicKey)
+    );
+  }
+
+  /**
+   * Open the recipient's token account, and the treasury's for payouts that
+   * take a fee, if they are missing, at the payer's expense, so a fresh
+   * wallet or mint can be paid. Escrows holding native SOL pay wallets
+   * directly and need neither. wSOL escrows migrated from the original layout
+   * still pay wSOL, unwrapped straight away when the recipient is the one
+   * signing; other recipients can unwrap theirs with `unwrapSol`.
+   */
+  private payoutInstructions(
+    payer: web3.PublicKey,
+    recipient: web3.PublicKey,
+    mint: web3.PublicKey,
+    recipientTokenAccount: web3.PublicKey,
+    tokenProgram: web3.PublicKey,
+    treasury?: { owner: web3.PublicKey; tokenAccount: web3.PublicKey }
+  ): {
+    preInstructions: web3.TransactionInstruction[];
+    postInstructions: web3.TransactionInstruction[];
+  } {
+    if (recipientTokenAccount.equals(recipient)) {
+      return { preInstructions: [], postInstructions: [] };
+    }
+
+    const preInstructions = [
+      createAssociatedTokenAccountIdempotentInstruction(
+        payer,
+        recipientTokenAccount,
+        recipient,
+        mint,
+        tokenProgram
+      ),
+    ];
+    if (treasury) {
+      preInstructions.unshift(
+        createAssociatedTokenAccountIdempotentInstruction(
+          payer,
+          treasury.tokenAccount,
+          treasury.owner,
+          mint,
+          tokenProgram
+        )
+      );
+    }
+    const postInstructions = mint.equals(NATIVE_MINT) && payer.equals(recipient)
+      ? [createCloseAccountInstruction(recipientTokenAccount, recipient, recipient)]
+      : [];
+
+    return { preInstructions, postInstructions };
+  }
+
+  /**
+   * Payout accounts of an escrow's recipients, passed as remaining accounts in
+   * recipient order. The payer opens any token accounts that are missing.
+   */
+  private async recipientAccounts(
+    escrowAccount: Pick<EscrowAccountData, "mint" | "holdsLamports" | "recipients">,
+    tokenProgram: web3.PublicKey,
+    payer: web3.PublicKey
+  ): Promise<{
+    remainingAccounts: web3.AccountMeta[];
+    preInstructions: web3.TransactionInstruction[];
+  }> {
+    const remainingAccounts: web3.AccountMeta[] = [];
+    const preInstructions: web3.TransactionInstruction[] = [];
+
+    for (const recipient of escrowAccount.recipients) {
+      const tokenAccount = await this.payoutAccount(escrowAccount, recipient.wallet, tokenProgram);
+      remainingAccounts.push({ pubkey: tokenAccount, isSigner: false, isWritable: true });
+      if (escrowAccount.holdsLamports) {
+        continue;
+      }
+      preInstructions.push(
+        createAssociatedTokenAccountIdempotentInstruction(
+          payer,
+          tokenAccount,
+          recipient.wallet,
+          escrowAccount.mint,
+          tokenProgram
+        )
+      );
+    }
+
+    return { remainingAccounts, preInstructions };
+  }
+
   /**
    * Utility method to check if escrow has timed out
    */
   isTimedOut(escrowInfo: EscrowInfo): boolean {
-    if (!escrowInfo.timeoutAt) return false;
+    // A dispute freezes the timeout until the arbiter rules
+    if (!escrowInfo.timeoutAt || escrowInfo.state === "disputed") return false;
     
     const currentTimestamp = Math.floor(Date.now() / 1000);
     return currentTimestamp >= escrowInfo.timeoutAt.toNumber();
   }
 
+  /**
+   * Describe what happens to the funds once the timeout passes, or null
+   * when the escrow has no timeout that still applies
+   */
+  describeTimeout(escrowInfo: EscrowInfo): string | null {
+    if (!escrowInfo.timeoutAt) return null;
+    if (escrowInfo.state === "disputed") return "Timeout frozen while the arbiter rules";
+    if (["released", "cancelled", "resolved"].includes(escrowInfo.state)) return null;
+    // Swaps and vesting escrows only pay out through their own instructions
+    if (escrowInfo.counterMint || escrowInfo.vesting) return null;
+
+    const refund = escrowInfo.timeoutPolicy === "refundToBuyer";
+    if (this.isTimedOut(escrowInfo)) {
+      return escrowInfo.state === "funded"
+        ? refund
+          ? "Timed out - anyone can refund the buyer"
+          : "Timed out - anyone can release to the seller"
+        : "Timed out before funding";
+    }
+    return refund
+      ? "Refunds the buyer if not released by the timeout"
+      : "Releases to the seller when the timeout passes";
+  }
+
   /**
    * Get time remaining until timeout
    */
@@ -421,6 +2750,62 @@ export class EscrowClient {
   }
 }
 
+/**
+ * SHA-256 of a terms document, as stored by `initialize_escrow_with_terms`.
+ * Strings are hashed as UTF-8. Uses WebCrypto, so it runs in Node and browsers.
+ */
+export async function hashTermsDocument(document: string | Uint8Array): Promise<Buffer> {
+  const bytes = typeof document === "string" ? new TextEncoder().encode(document) : document;
+  return Buffer.from(await globalThis.crypto.subtle.digest("SHA-256", bytes));
+}
+
+/**
+ * The message an attestor signs to release an escrow: the escrow address
+ * followed by its condition hash (64 bytes)
+ */
+export function buildAttestationMessage(escrow: web3.PublicKey, conditionHash: Uint8Array): Buffer {
+  if (conditionHash.length !== 32) {
+    throw new Error("Condition hash must be 32 bytes");
+  }
+  return Buffer.concat([escrow.toBuffer(), Buffer.from(conditionHash)]);
+}
+
+/**
+ * Sign an attestation with a local attestor keypair, as a delivery-tracking
+ * service would. Returns the 64-byte ed25519 signature.
+ */
+export function signAttestation(
+  attestor: web3.Keypair,
+  escrow: web3.PublicKey,
+  conditionHash: Uint8Array
+): Uint8Array {
+  // web3.js signs while building the verify instruction; read the signature
+  // back from the offset recorded in its header
+  const { data } = web3.Ed25519Program.createInstructionWithPrivateKey({
+    privateKey: attestor.secretKey,
+    message: buildAttestationMessage(escrow, conditionHash),
+  });
+  const signatureOffset = data.readUInt16LE(2);
+  return Uint8Array.from(data.subarray(signatureOffset, signatureOffset + 64));
+}
+
+/**
+ * The ed25519 verify instruction `release_with_attestation` expects right
+ * before it in the transaction
+ */
+export function createAttestationInstruction(
+  attestor: web3.PublicKey,
+  escrow: web3.PublicKey,
+  conditionHash: Uint8Array,
+  signature: Uint8Array
+): web3.TransactionInstruction {
+  return web3.Ed25519Program.createInstructionWithPublicKey({
+    publicKey: attestor.toBytes(),
+    message: buildAttestationMessage(escrow, conditionHash),
+    signature,
+  });
+}
+
 // Example usage
 export async function createEscrowClient(
   connection: web3.Connection,
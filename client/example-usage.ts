@@ -163,7 +163,7 @@ async function main() {
         // Example 4: Event Listening
         console.log("\n=== Example 4: Event Listening ===");
         
-        const listenerId = escrowClient.addEventListener("EscrowCreated", (event, slot, signature) => {
+        const listenerId = escrowClient.addEventListener("escrowCreated", (event, slot, signature) => {
             console.log(`🎉 New escrow created: ${event.escrow.toString()}`);
             console.log(`💰 Amount: ${event.amount.toString()}`);
             console.log(`📝 Signature: ${signature}`);
@@ -8,6 +8,7 @@ import {
   createAccount,
   mintTo,
   getAccount,
+  getOrCreateAssociatedTokenAccount,
 } from "@solana/spl-token";
 
 async function runEscrowExample() {
@@ -110,6 +111,7 @@ async function runEscrowExample() {
         vault: vaultPda,
         buyer: buyerKeypair.publicKey,
         mint: mint,
+        tokenProgram: TOKEN_PROGRAM_ID,
       })
       .signers([buyerKeypair])
       .rpc();
@@ -125,6 +127,8 @@ async function runEscrowExample() {
         vault: vaultPda,
         depositor: buyerKeypair.publicKey,
         depositorTokenAccount: buyerTokenAccount,
+        mint: mint,
+        tokenProgram: TOKEN_PROGRAM_ID,
       })
       .signers([buyerKeypair])
       .rpc();
@@ -145,6 +149,20 @@ async function runEscrowExample() {
     
     // 4. Release funds
     console.log("\n4️⃣ Releasing funds to seller...");
+    // The protocol fee goes to the treasury set in the program config
+    const [configPda] = anchor.web3.PublicKey.findProgramAddressSync(
+      [Buffer.from("config")],
+      program.programId
+    );
+    const config = await program.account.config.fetch(configPda);
+    const treasuryTokenAccount = await getOrCreateAssociatedTokenAccount(
+      provider.connection,
+      buyerKeypair,
+      mint,
+      config.treasury,
+      true
+    );
+    
     const releaseTx = await program.methods
       .release()
       .accounts({
@@ -152,6 +170,10 @@ async function runEscrowExample() {
         vault: vaultPda,
         authority: buyerKeypair.publicKey,
         sellerTokenAccount: sellerTokenAccount,
+        config: configPda,
+        treasuryTokenAccount: treasuryTokenAccount.address,
+        mint: mint,
+        tokenProgram: TOKEN_PROGRAM_ID,
       })
       .signers([buyerKeypair])
       .rpc();
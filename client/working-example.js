@@ -6,6 +6,7 @@ const {
   createAccount,
   mintTo,
   getAccount,
+  getOrCreateAssociatedTokenAccount,
 } = require("@solana/spl-token");
 
 async function runWorkingExample() {
@@ -109,6 +110,7 @@ async function runWorkingExample() {
         vault: vaultPda,
         buyer: buyerKeypair.publicKey,
         mint: mint,
+        tokenProgram: TOKEN_PROGRAM_ID,
       })
       .signers([buyerKeypair])
       .rpc();
@@ -125,6 +127,8 @@ async function runWorkingExample() {
         vault: vaultPda,
         depositor: buyerKeypair.publicKey,
         depositorTokenAccount: buyerTokenAccount,
+        mint: mint,
+        tokenProgram: TOKEN_PROGRAM_ID,
       })
       .signers([buyerKeypair])
       .rpc();
@@ -148,6 +152,20 @@ async function runWorkingExample() {
     
     // Step 4: Release funds
     console.log("\\n4️⃣ Releasing funds to seller...");
+    // The protocol fee goes to the treasury set in the program config
+    const [configPda] = anchor.web3.PublicKey.findProgramAddressSync(
+      [Buffer.from("config")],
+      program.programId
+    );
+    const config = await program.account.config.fetch(configPda);
+    const treasuryTokenAccount = await getOrCreateAssociatedTokenAccount(
+      provider.connection,
+      buyerKeypair,
+      mint,
+      config.treasury,
+      true
+    );
+    
     const releaseTx = await program.methods
       .release()
       .accounts({
@@ -155,6 +173,10 @@ async function runWorkingExample() {
         vault: vaultPda,
         authority: buyerKeypair.publicKey,
         sellerTokenAccount: sellerTokenAccount,
+        config: configPda,
+        treasuryTokenAccount: treasuryTokenAccount.address,
+        mint: mint,
+        tokenProgram: TOKEN_PROGRAM_ID,
       })
       .signers([buyerKeypair])
       .rpc();
@@ -8,6 +8,7 @@ import {
   createAccount,
   mintTo,
   getAccount,
+  getOrCreateAssociatedTokenAccount,
 } from "@solana/spl-token";
 
 async function runWorkingExample() {
@@ -111,6 +112,7 @@ async function runWorkingExample() {
         vault: vaultPda,
         buyer: buyerKeypair.publicKey,
         mint: mint,
+        tokenProgram: TOKEN_PROGRAM_ID,
       })
       .signers([buyerKeypair])
       .rpc();
@@ -127,6 +129,8 @@ async function runWorkingExample() {
         vault: vaultPda,
         depositor: buyerKeypair.publicKey,
         depositorTokenAccount: buyerTokenAccount,
+        mint: mint,
+        tokenProgram: TOKEN_PROGRAM_ID,
       })
       .signers([buyerKeypair])
       .rpc();
@@ -150,6 +154,20 @@ async function runWorkingExample() {
     
     // Step 4: Release funds (exact same as tests)
     console.log("\\n4️⃣ Releasing funds to seller...");
+    // The protocol fee goes to the treasury set in the program config
+    const [configPda] = anchor.web3.PublicKey.findProgramAddressSync(
+      [Buffer.from("config")],
+      program.programId
+    );
+    const config = await program.account.config.fetch(configPda);
+    const treasuryTokenAccount = await getOrCreateAssociatedTokenAccount(
+      provider.connection,
+      buyerKeypair,
+      mint,
+      config.treasury,
+      true
+    );
+    
     const releaseTx = await program.methods
       .release()
       .accounts({
@@ -157,6 +175,10 @@ async function runWorkingExample() {
         vault: vaultPda,
         authority: buyerKeypair.publicKey,
         sellerTokenAccount: sellerTokenAccount,
+        config: configPda,
+        treasuryTokenAccount: treasuryTokenAccount.address,
+        mint: mint,
+        tokenProgram: TOKEN_PROGRAM_ID,
       })
       .signers([buyerKeypair])
       .rpc();
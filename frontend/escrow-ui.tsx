@@ -1,21 +1,36 @@
 // frontend/escrow-ui.tsx - React component example
 import React, { useState, useEffect } from 'react';
-import { useConnection, useWallet } from '@solana/wallet-adapter-react';
+import { useAnchorWallet, useConnection, useWallet } from '@solana/wallet-adapter-react';
 import { PublicKey, Transaction } from '@solana/web3.js';
 import { BN } from '@coral-xyz/anchor';
-import { EscrowClient, EscrowInfo, createEscrowClient } from '../client/escrow-client';
+import {
+  DisputeVote,
+  EscrowClient,
+  EscrowClientError,
+  EscrowInfo,
+  TimeoutPolicy,
+  createEscrowClient,
+  hashTermsDocument,
+} from '../client/escrow-client';
 import { toast } from 'react-hot-toast';
 
 interface EscrowUIProps {
   programId: string;
 }
 
+// Client errors carry a message fit for users, e.g. "Unauthorized to release funds"
+const describeError = (error: unknown, action: string) =>
+  error instanceof EscrowClientError ? `${action}: ${error.message}` : action;
+
 export const EscrowUI: React.FC<EscrowUIProps> = ({ programId }) => {
   const { connection } = useConnection();
   const wallet = useWallet();
+  // Signs both as the provider's wallet and as the escrow party
+  const anchorWallet = useAnchorWallet();
   const [escrowClient, setEscrowClient] = useState<EscrowClient | null>(null);
   const [userEscrows, setUserEscrows] = useState<EscrowInfo[]>([]);
   const [loading, setLoading] = useState(false);
+  const [paused, setPaused] = useState(false);
 
   // Form states
   const [formData, setFormData] = useState({
@@ -23,23 +38,34 @@ export const EscrowUI: React.FC<EscrowUIProps> = ({ programId }) => {
     seller: '',
     mint: '',
     conditions: '',
+    termsUri: '',
     timeoutHours: '',
+    timeoutPolicy: 'releaseToSeller' as TimeoutPolicy,
+    requireAcceptance: false,
+    swap: false,
+    counterMint: '',
+    counterAmount: '',
+    vestingDays: '',
+    cliffDays: '',
+    attestor: '',
+    secretHash: '',
   });
 
   useEffect(() => {
-    if (wallet.publicKey && connection) {
+    if (anchorWallet && connection) {
       initializeClient();
     }
-  }, [wallet.publicKey, connection]);
+  }, [anchorWallet, connection]);
 
   const initializeClient = async () => {
     try {
       const client = await createEscrowClient(
         connection,
-        wallet,
+        anchorWallet,
         new PublicKey(programId)
       );
       setEscrowClient(client);
+      setPaused(await client.getPauseStatus());
       await loadUserEscrows(client);
     } catch (error) {
       console.error('Failed to initialize escrow client:', error);
@@ -53,9 +79,10 @@ export const EscrowUI: React.FC<EscrowUIProps> = ({ programId }) => {
     try {
       const buyerEscrows = await client.getEscrowsForBuyer(wallet.publicKey);
       const sellerEscrows = await client.getEscrowsForSeller(wallet.publicKey);
+      const delegatedEscrows = await client.getEscrowsForDelegate(wallet.publicKey);
       
       // Combine and deduplicate
-      const allEscrows = [...buyerEscrows, ...sellerEscrows];
+      const allEscrows = [...buyerEscrows, ...sellerEscrows, ...delegatedEscrows];
       const uniqueEscrows = allEscrows.filter((escrow, index, self) => 
         index === self.findIndex(e => e.escrow.equals(escrow.escrow))
       );
@@ -72,19 +99,51 @@ export const EscrowUI: React.FC<EscrowUIProps> = ({ programId }) => {
 
     setLoading(true);
     try {
+      const now = Math.floor(Date.now() / 1000);
       const config = {
         amount: new BN(parseFloat(formData.amount) * 1000000), // Assuming 6 decimals
         seller: new PublicKey(formData.seller),
         mint: new PublicKey(formData.mint),
         releaseConditions: formData.conditions,
+        // With a terms URI the conditions are the hosted document, stored by hash
+        terms: formData.termsUri ? {
+          hash: await hashTermsDocument(formData.conditions),
+          uri: formData.termsUri,
+        } : undefined,
         timeoutDuration: formData.timeoutHours ? 
           new BN(parseInt(formData.timeoutHours) * 3600) : undefined,
+        requireAcceptance: formData.requireAcceptance,
+        timeoutPolicy: formData.timeoutPolicy,
+        // Counter amount is in base units, so an NFT is 1
+        counterAsset: formData.swap ? {
+          mint: new PublicKey(formData.counterMint),
+          amount: new BN(formData.counterAmount),
+        } : undefined,
+        // Vesting starts when the escrow is created
+        vesting: formData.vestingDays ? {
+          startTs: new BN(now),
+          endTs: new BN(now + parseInt(formData.vestingDays) * 86400),
+          cliffTs: formData.cliffDays ? new BN(now + parseInt(formData.cliffDays) * 86400) : undefined,
+        } : undefined,
+        // The attestor signs over the SHA-256 of the release conditions
+        attestation: formData.attestor ? {
+          attestor: new PublicKey(formData.attestor),
+          conditionHash: new Uint8Array(
+            await crypto.subtle.digest('SHA-256', new TextEncoder().encode(formData.conditions))
+          ),
+        } : undefined,
       };
 
-      const result = await escrowClient.initializeEscrow(
-        wallet as any, // Type assertion for demo
-        config
-      );
+      const result = formData.secretHash
+        ? await escrowClient.createHashLockedEscrow(
+            anchorWallet!,
+            config,
+            Buffer.from(formData.secretHash, 'hex')
+          )
+        : await escrowClient.initializeEscrow(
+            anchorWallet!,
+            config
+          );
 
       toast.success(`Escrow created! ID: ${result.escrow.toString().slice(0, 8)}...`);
       
@@ -94,14 +153,56 @@ export const EscrowUI: React.FC<EscrowUIProps> = ({ programId }) => {
         seller: '',
         mint: '',
         conditions: '',
+        termsUri: '',
         timeoutHours: '',
+        timeoutPolicy: 'releaseToSeller',
+        requireAcceptance: false,
+        swap: false,
+        counterMint: '',
+        counterAmount: '',
+        vestingDays: '',
+        cliffDays: '',
+        attestor: '',
+        secretHash: '',
       });
 
       // Reload escrows
       await loadUserEscrows(escrowClient);
     } catch (error) {
       console.error('Failed to create escrow:', error);
-      toast.error('Failed to create escrow');
+      toast.error(describeError(error, 'Failed to create escrow'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAcceptEscrow = async (escrow: PublicKey) => {
+    if (!escrowClient) return;
+
+    setLoading(true);
+    try {
+      const signature = await escrowClient.acceptEscrow(anchorWallet!, escrow);
+      toast.success(`Terms accepted! Tx: ${signature.slice(0, 8)}...`);
+      await loadUserEscrows(escrowClient);
+    } catch (error) {
+      console.error('Failed to accept escrow:', error);
+      toast.error(describeError(error, 'Failed to accept terms'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRejectEscrow = async (escrow: PublicKey) => {
+    if (!escrowClient) return;
+
+    setLoading(true);
+    try {
+      const signature = await escrowClient.rejectEscrow(anchorWallet!, escrow);
+      toast.success(`Terms rejected! Tx: ${signature.slice(0, 8)}...`);
+      await loadUserEscrows(escrowClient);
+    } catch (error) {
+      console.error('Failed to reject escrow:', error);
+      toast.error(describeError(error, 'Failed to reject terms'));
     } finally {
       setLoading(false);
     }
@@ -112,12 +213,12 @@ export const EscrowUI: React.FC<EscrowUIProps> = ({ programId }) => {
 
     setLoading(true);
     try {
-      const signature = await escrowClient.deposit(wallet as any, escrow, mint);
+      const signature = await escrowClient.deposit(anchorWallet!, escrow, mint);
       toast.success(`Funds deposited! Tx: ${signature.slice(0, 8)}...`);
       await loadUserEscrows(escrowClient);
     } catch (error) {
       console.error('Failed to deposit:', error);
-      toast.error('Failed to deposit funds');
+      toast.error(describeError(error, 'Failed to deposit funds'));
     } finally {
       setLoading(false);
     }
@@ -128,28 +229,224 @@ export const EscrowUI: React.FC<EscrowUIProps> = ({ programId }) => {
 
     setLoading(true);
     try {
-      const signature = await escrowClient.releaseFunds(wallet as any, escrow);
+      const signature = await escrowClient.releaseFunds(anchorWallet!, escrow);
       toast.success(`Funds released! Tx: ${signature.slice(0, 8)}...`);
       await loadUserEscrows(escrowClient);
     } catch (error) {
       console.error('Failed to release:', error);
-      toast.error('Failed to release funds');
+      toast.error(describeError(error, 'Failed to release funds'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReleaseMilestone = async (escrow: PublicKey, milestoneIndex: number) => {
+    if (!escrowClient) return;
+
+    setLoading(true);
+    try {
+      const signature = await escrowClient.releaseMilestone(anchorWallet!, escrow, milestoneIndex);
+      toast.success(`Milestone ${milestoneIndex + 1} released! Tx: ${signature.slice(0, 8)}...`);
+      await loadUserEscrows(escrowClient);
+    } catch (error) {
+      console.error('Failed to release milestone:', error);
+      toast.error(describeError(error, 'Failed to release milestone'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRaiseDispute = async (escrow: PublicKey) => {
+    if (!escrowClient) return;
+
+    setLoading(true);
+    try {
+      const signature = await escrowClient.raiseDispute(anchorWallet!, escrow);
+      toast.success(`Dispute raised! Tx: ${signature.slice(0, 8)}...`);
+      await loadUserEscrows(escrowClient);
+    } catch (error) {
+      console.error('Failed to raise dispute:', error);
+      toast.error(describeError(error, 'Failed to raise dispute'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSettleExpired = async (escrow: PublicKey) => {
+    if (!escrowClient) return;
+
+    setLoading(true);
+    try {
+      const signature = await escrowClient.settleExpired(anchorWallet!, escrow);
+      toast.success(`Expired escrow settled! Tx: ${signature.slice(0, 8)}...`);
+      await loadUserEscrows(escrowClient);
+    } catch (error) {
+      console.error('Failed to settle expired escrow:', error);
+      toast.error(describeError(error, 'Failed to settle expired escrow'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleWithdrawVested = async (escrow: PublicKey) => {
+    if (!escrowClient) return;
+
+    setLoading(true);
+    try {
+      const signature = await escrowClient.withdrawVested(anchorWallet!, escrow);
+      toast.success(`Vested funds withdrawn! Tx: ${signature.slice(0, 8)}...`);
+      await loadUserEscrows(escrowClient);
+    } catch (error) {
+      console.error('Failed to withdraw vested funds:', error);
+      toast.error(describeError(error, 'Failed to withdraw vested funds'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleClaimWithPreimage = async (escrow: PublicKey) => {
+    if (!escrowClient) return;
+
+    const preimage = window.prompt('Secret (hex) matching the hash lock');
+    if (!preimage) return;
+
+    setLoading(true);
+    try {
+      const signature = await escrowClient.claimWithPreimage(anchorWallet!, escrow, Buffer.from(preimage, 'hex'));
+      toast.success(`Hash lock claimed! Tx: ${signature.slice(0, 8)}...`);
+      await loadUserEscrows(escrowClient);
+    } catch (error) {
+      console.error('Failed to claim hash lock:', error);
+      toast.error(describeError(error, 'Failed to claim hash lock'));
     } finally {
       setLoading(false);
     }
   };
 
+  const handleMigrateEscrow = async (escrow: PublicKey) => {
+    if (!escrowClient) return;
+
+    setLoading(true);
+    try {
+      const signature = await escrowClient.migrateEscrow(anchorWallet!, escrow);
+      toast.success(`Escrow upgraded! Tx: ${signature.slice(0, 8)}...`);
+      await loadUserEscrows(escrowClient);
+    } catch (error) {
+      console.error('Failed to migrate escrow:', error);
+      toast.error(describeError(error, 'Failed to upgrade escrow'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleVerifyTerms = async (escrow: EscrowInfo) => {
+    if (!escrowClient) return;
+
+    try {
+      await escrowClient.fetchVerifiedTerms(escrow);
+      toast.success('Terms document matches the on-chain hash');
+    } catch (error) {
+      console.error('Failed to verify terms:', error);
+      toast.error('Terms document could not be verified');
+    }
+  };
+
+  const handleRevokeDelegate = async (escrow: PublicKey) => {
+    if (!escrowClient) return;
+
+    setLoading(true);
+    try {
+      const signature = await escrowClient.revokeDelegate(anchorWallet!, escrow);
+      toast.success(`Delegate revoked! Tx: ${signature.slice(0, 8)}...`);
+      await loadUserEscrows(escrowClient);
+    } catch (error) {
+      console.error('Failed to revoke delegate:', error);
+      toast.error(describeError(error, 'Failed to revoke delegate'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDepositCounterAsset = async (escrow: PublicKey) => {
+    if (!escrowClient) return;
+
+    setLoading(true);
+    try {
+      const signature = await escrowClient.depositCounterAsset(anchorWallet!, escrow);
+      toast.success(`Swap asset deposited! Tx: ${signature.slice(0, 8)}...`);
+      await loadUserEscrows(escrowClient);
+    } catch (error) {
+      console.error('Failed to deposit swap asset:', error);
+      toast.error(describeError(error, 'Failed to deposit swap asset'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSettleSwap = async (escrow: PublicKey) => {
+    if (!escrowClient) return;
+
+    setLoading(true);
+    try {
+      const signature = await escrowClient.settleSwap(anchorWallet!, escrow);
+      toast.success(`Swap settled! Tx: ${signature.slice(0, 8)}...`);
+      await loadUserEscrows(escrowClient);
+    } catch (error) {
+      console.error('Failed to settle swap:', error);
+      toast.error(describeError(error, 'Failed to settle swap'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleWithdrawCounterAsset = async (escrow: PublicKey) => {
+    if (!escrowClient) return;
+
+    setLoading(true);
+    try {
+      const signature = await escrowClient.withdrawCounterAsset(anchorWallet!, escrow);
+      toast.success(`Swap asset withdrawn! Tx: ${signature.slice(0, 8)}...`);
+      await loadUserEscrows(escrowClient);
+    } catch (error) {
+      console.error('Failed to withdraw swap asset:', error);
+      toast.error(describeError(error, 'Failed to withdraw swap asset'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCastVote = async (escrow: PublicKey, vote: DisputeVote) => {
+    if (!escrowClient) return;
+
+    setLoading(true);
+    try {
+      const signature = await escrowClient.castArbiterVote(anchorWallet!, escrow, vote);
+      toast.success(`Vote cast! Tx: ${signature.slice(0, 8)}...`);
+      await loadUserEscrows(escrowClient);
+    } catch (error) {
+      console.error('Failed to cast vote:', error);
+      toast.error(describeError(error, 'Failed to cast vote'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const describeRuling = (buyerShareBps: number) =>
+    buyerShareBps === 0 ? 'Release to seller' :
+    buyerShareBps === 10000 ? 'Refund buyer' :
+    `Split ${buyerShareBps / 100}% to buyer`;
+
   const handleCancelEscrow = async (escrow: PublicKey) => {
     if (!escrowClient) return;
 
     setLoading(true);
     try {
-      const signature = await escrowClient.cancelEscrow(wallet as any, escrow);
+      const signature = await escrowClient.cancelEscrow(anchorWallet!, escrow);
       toast.success(`Escrow cancelled! Tx: ${signature.slice(0, 8)}...`);
       await loadUserEscrows(escrowClient);
     } catch (error) {
       console.error('Failed to cancel:', error);
-      toast.error('Failed to cancel escrow');
+      toast.error(describeError(error, 'Failed to cancel escrow'));
     } finally {
       setLoading(false);
     }
@@ -157,10 +454,13 @@ export const EscrowUI: React.FC<EscrowUIProps> = ({ programId }) => {
 
   const getStateColor = (state: string) => {
     switch (state) {
+      case 'awaitingAcceptance': return 'bg-gray-100 text-gray-800';
       case 'initialized': return 'bg-yellow-100 text-yellow-800';
       case 'funded': return 'bg-blue-100 text-blue-800';
       case 'released': return 'bg-green-100 text-green-800';
       case 'cancelled': return 'bg-red-100 text-red-800';
+      case 'disputed': return 'bg-orange-100 text-orange-800';
+      case 'resolved': return 'bg-purple-100 text-purple-800';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
@@ -182,6 +482,12 @@ export const EscrowUI: React.FC<EscrowUIProps> = ({ programId }) => {
     <div className="max-w-6xl mx-auto p-6">
       <h1 className="text-3xl font-bold mb-8">Solana Escrow System</h1>
       
+      {paused && (
+        <div className="bg-yellow-50 border border-yellow-300 text-yellow-800 rounded-lg p-4 mb-8">
+          The escrow program is paused. New escrows and deposits are disabled, but existing escrows can still be cancelled and released.
+        </div>
+      )}
+      
       {/* Create Escrow Form */}
       <div className="bg-white rounded-lg shadow-md p-6 mb-8">
         <h2 className="text-xl font-semibold mb-4">Create New Escrow</h2>
@@ -237,7 +543,47 @@ export const EscrowUI: React.FC<EscrowUIProps> = ({ programId }) => {
               value={formData.timeoutHours}
               onChange={(e) => setFormData({...formData, timeoutHours: e.target.value})}
               className="w-full p-2 border border-gray-300 rounded-md"
-              placeholder="Auto-release timeout"
+              placeholder="Deadline for the seller"
+            />
+          </div>
+          
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              When the timeout passes
+            </label>
+            <select
+              value={formData.timeoutPolicy}
+              onChange={(e) => setFormData({...formData, timeoutPolicy: e.target.value as TimeoutPolicy})}
+              className="w-full p-2 border border-gray-300 rounded-md"
+            >
+              <option value="releaseToSeller">Release funds to the seller</option>
+              <option value="refundToBuyer">Refund me</option>
+            </select>
+          </div>
+          
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Hash lock (SHA-256 hex, optional, needs a timeout)
+            </label>
+            <input
+              type="text"
+              value={formData.secretHash}
+              onChange={(e) => setFormData({...formData, secretHash: e.target.value})}
+              className="w-full p-2 border border-gray-300 rounded-md font-mono"
+              placeholder="Seller gets paid by revealing the secret before the timeout"
+            />
+          </div>
+          
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Attestor (optional)
+            </label>
+            <input
+              type="text"
+              value={formData.attestor}
+              onChange={(e) => setFormData({...formData, attestor: e.target.value})}
+              className="w-full p-2 border border-gray-300 rounded-md"
+              placeholder="Oracle whose signature releases the funds, e.g. a delivery tracker"
             />
           </div>
           
@@ -255,6 +601,104 @@ export const EscrowUI: React.FC<EscrowUIProps> = ({ programId }) => {
             />
           </div>
           
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Terms URI (optional)
+            </label>
+            <input
+              type="text"
+              value={formData.termsUri}
+              onChange={(e) => setFormData({...formData, termsUri: e.target.value})}
+              className="w-full p-2 border border-gray-300 rounded-md"
+              placeholder="Where the conditions above are hosted; only their hash is stored on-chain"
+              maxLength={128}
+            />
+          </div>
+          
+          <div className="md:col-span-2">
+            <label className="inline-flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={formData.requireAcceptance}
+                onChange={(e) => setFormData({...formData, requireAcceptance: e.target.checked})}
+                className="mr-2"
+              />
+              Require the seller to accept the terms before funding
+            </label>
+          </div>
+          
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Vesting period (days, optional)
+            </label>
+            <input
+              type="number"
+              value={formData.vestingDays}
+              onChange={(e) => setFormData({...formData, vestingDays: e.target.value})}
+              className="w-full p-2 border border-gray-300 rounded-md"
+              placeholder="Unlock to the seller over time"
+            />
+          </div>
+          
+          {formData.vestingDays && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Cliff (days, optional)
+              </label>
+              <input
+                type="number"
+                value={formData.cliffDays}
+                onChange={(e) => setFormData({...formData, cliffDays: e.target.value})}
+                className="w-full p-2 border border-gray-300 rounded-md"
+                placeholder="Nothing unlocks before this"
+              />
+            </div>
+          )}
+          
+          <div className="md:col-span-2">
+            <label className="inline-flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={formData.swap}
+                onChange={(e) => setFormData({...formData, swap: e.target.checked})}
+                className="mr-2"
+              />
+              Swap: the seller deposits an NFT or token in return
+            </label>
+          </div>
+          
+          {formData.swap && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Seller's Asset Mint
+                </label>
+                <input
+                  type="text"
+                  value={formData.counterMint}
+                  onChange={(e) => setFormData({...formData, counterMint: e.target.value})}
+                  className="w-full p-2 border border-gray-300 rounded-md"
+                  placeholder="NFT or token mint address"
+                  required
+                />
+              </div>
+              
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Seller's Asset Amount (base units)
+                </label>
+                <input
+                  type="number"
+                  value={formData.counterAmount}
+                  onChange={(e) => setFormData({...formData, counterAmount: e.target.value})}
+                  className="w-full p-2 border border-gray-300 rounded-md"
+                  placeholder="1 for an NFT"
+                  required
+                />
+              </div>
+            </>
+          )}
+          
           <div className="md:col-span-2">
             <button
               type="submit"
@@ -283,7 +727,7 @@ export const EscrowUI: React.FC<EscrowUIProps> = ({ programId }) => {
                       {escrow.escrow.toString()}
                     </p>
                     <span className={`inline-block px-2 py-1 text-xs font-semibold rounded-full ${getStateColor(escrow.state)}`}>
-                      {escrow.state.toUpperCase()}
+                      {escrow.state === 'awaitingAcceptance' ? 'AWAITING ACCEPTANCE' : escrow.state.toUpperCase()}
                     </span>
                   </div>
                   <div className="text-right">
@@ -298,7 +742,21 @@ export const EscrowUI: React.FC<EscrowUIProps> = ({ programId }) => {
                 
                 <div className="mb-3">
                   <p className="text-sm text-gray-600 mb-1">Release Conditions:</p>
-                  <p className="text-sm bg-gray-50 p-2 rounded">{escrow.releaseConditions}</p>
+                  {escrow.termsHash ? (
+                    <div className="flex justify-between items-center text-sm bg-gray-50 p-2 rounded">
+                      <a href={escrow.termsUri} target="_blank" rel="noreferrer" className="text-blue-600 underline truncate">
+                        {escrow.termsUri}
+                      </a>
+                      <button
+                        onClick={() => handleVerifyTerms(escrow)}
+                        className="text-blue-600 hover:underline text-xs ml-2"
+                      >
+                        Verify
+                      </button>
+                    </div>
+                  ) : (
+                    <p className="text-sm bg-gray-50 p-2 rounded">{escrow.releaseConditions}</p>
+                  )}
                 </div>
                 
                 <div className="grid grid-cols-2 gap-4 text-sm mb-3">
@@ -312,16 +770,148 @@ export const EscrowUI: React.FC<EscrowUIProps> = ({ programId }) => {
                   </div>
                 </div>
                 
+                {escrow.recipients.length > 0 && (
+                  <div className="mb-3">
+                    <p className="text-sm text-gray-600 mb-1">Paid out to:</p>
+                    <ul className="space-y-1">
+                      {escrow.recipients.map((recipient) => (
+                        <li key={recipient.wallet.toString()} className="flex justify-between text-sm">
+                          <span className="font-mono text-xs">{recipient.wallet.toString().slice(0, 16)}...</span>
+                          <span>{recipient.shareBps / 100}%</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                
+                {escrow.secretHash && (
+                  <p className="mb-3 text-sm text-gray-600">
+                    Hash-locked to{' '}
+                    <span className="font-mono text-xs">{escrow.secretHash.toString('hex').slice(0, 16)}...</span>
+                  </p>
+                )}
+                
+                {escrow.attestor && (
+                  <p className="mb-3 text-sm text-gray-600">
+                    Released when{' '}
+                    <span className="font-mono text-xs">{escrow.attestor.toString().slice(0, 16)}...</span>
+                    {' '}attests the conditions are met
+                  </p>
+                )}
+                
+                {escrow.delegates.length > 0 && (
+                  <div className="mb-3">
+                    <p className="text-sm text-gray-600 mb-1">Delegates:</p>
+                    <ul className="space-y-1">
+                      {escrow.delegates.map((delegate) => (
+                        <li key={delegate.party.toString()} className="flex justify-between items-center text-sm">
+                          <span className="font-mono text-xs">{delegate.delegate.toString().slice(0, 16)}...</span>
+                          <span className="flex items-center gap-2">
+                            <span>
+                              {delegate.actions.join(', ')}
+                              {delegate.expiresAt && ` until ${new Date(delegate.expiresAt.toNumber() * 1000).toLocaleString()}`}
+                            </span>
+                            {delegate.party.equals(wallet.publicKey!) && (
+                              <button
+                                onClick={() => handleRevokeDelegate(escrow.escrow)}
+                                disabled={loading}
+                                className="bg-red-600 text-white px-2 py-0.5 text-xs rounded hover:bg-red-700 disabled:opacity-50"
+                              >
+                                Revoke
+                              </button>
+                            )}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                
+                {escrow.vesting && escrowClient && (
+                  <div className="mb-3">
+                    <div className="flex justify-between text-sm text-gray-600 mb-1">
+                      <span>
+                        Vesting until {new Date(escrow.vesting.endTs.toNumber() * 1000).toLocaleDateString()}
+                        {!escrow.vesting.cliffTs.eq(escrow.vesting.startTs) &&
+                          ` (cliff ${new Date(escrow.vesting.cliffTs.toNumber() * 1000).toLocaleDateString()})`}
+                      </span>
+                      <span>
+                        {formatAmount(escrowClient.computeVested(escrow))} vested / {formatAmount(escrow.releasedAmount)} withdrawn
+                      </span>
+                    </div>
+                    <div className="w-full bg-gray-200 rounded-full h-2">
+                      <div
+                        className="bg-green-600 h-2 rounded-full"
+                        style={{ width: `${escrow.depositedAmount.isZero() ? 0 : escrowClient.computeVested(escrow).muln(100).div(escrow.depositedAmount).toNumber()}%` }}
+                      />
+                    </div>
+                  </div>
+                )}
+                
+                {escrow.counterMint && (
+                  <div className="mb-3 text-sm">
+                    <p className="text-gray-600">
+                      Swap for {escrow.counterAmount.toString()} of{' '}
+                      <span className="font-mono text-xs">{escrow.counterMint.toString().slice(0, 16)}...</span>
+                    </p>
+                    <p className={escrow.counterDepositedAmount.isZero() ? 'text-orange-600' : 'text-green-600'}>
+                      {escrow.counterDepositedAmount.isZero()
+                        ? 'Waiting for the seller to deposit their side'
+                        : 'Seller has deposited their side'}
+                    </p>
+                  </div>
+                )}
+                
+                {escrow.milestones.length > 0 && (
+                  <div className="mb-3">
+                    <div className="flex justify-between text-sm text-gray-600 mb-1">
+                      <span>Milestones ({escrow.milestones.filter(m => m.released).length}/{escrow.milestones.length})</span>
+                      <span>
+                        {formatAmount(escrow.releasedAmount)} released / {formatAmount(escrow.remainingAmount)} remaining
+                      </span>
+                    </div>
+                    <div className="w-full bg-gray-200 rounded-full h-2 mb-2">
+                      <div
+                        className="bg-green-600 h-2 rounded-full"
+                        style={{ width: `${escrow.amount.isZero() ? 0 : escrow.releasedAmount.muln(100).div(escrow.amount).toNumber()}%` }}
+                      />
+                    </div>
+                    <ul className="text-sm divide-y">
+                      {escrow.milestones.map((milestone) => (
+                        <li key={milestone.index} className="flex justify-between items-center py-1">
+                          <span className={milestone.released ? 'text-gray-400 line-through' : ''}>
+                            {milestone.index + 1}. {milestone.description}
+                          </span>
+                          <span className="flex items-center gap-2">
+                            <span className="font-mono">{formatAmount(milestone.amount)}</span>
+                            {milestone.released ? (
+                              <span className="text-green-600 text-xs font-semibold">RELEASED</span>
+                            ) : escrow.state === 'funded' && escrow.buyer.equals(wallet.publicKey!) && (
+                              <button
+                                onClick={() => handleReleaseMilestone(escrow.escrow, milestone.index)}
+                                disabled={loading}
+                                className="bg-blue-600 text-white px-2 py-0.5 text-xs rounded hover:bg-blue-700 disabled:opacity-50"
+                              >
+                                Release
+                              </button>
+                            )}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                
                 {escrow.timeoutAt && (
                   <div className="mb-3">
                     <p className="text-sm text-gray-600">
                       Timeout: {new Date(escrow.timeoutAt.toNumber() * 1000).toLocaleString()}
                     </p>
-                    {escrowClient && (
+                    {escrowClient && escrowClient.describeTimeout(escrow) && (
                       <p className="text-sm text-orange-600">
-                        {escrowClient.isTimedOut(escrow) ? 
-                          'Timed out - can be released by anyone' : 
-                          `${escrowClient.getTimeUntilTimeout(escrow)} seconds remaining`
+                        {escrowClient.describeTimeout(escrow)}
+                        {!escrowClient.isTimedOut(escrow) && 
+                          ` (${escrowClient.getTimeUntilTimeout(escrow)} seconds remaining)`
                         }
                       </p>
                     )}
@@ -330,6 +920,41 @@ export const EscrowUI: React.FC<EscrowUIProps> = ({ programId }) => {
                 
                 {/* Action Buttons */}
                 <div className="flex gap-2 pt-3 border-t">
+                  {/* Escrows from before account versioning must be upgraded before anything else */}
+                  {escrow.version === 0 && (
+                    <button
+                      onClick={() => handleMigrateEscrow(escrow.escrow)}
+                      disabled={loading}
+                      className="bg-yellow-600 text-white px-3 py-1 text-sm rounded hover:bg-yellow-700 disabled:opacity-50"
+                    >
+                      Upgrade escrow
+                    </button>
+                  )}
+                  
+                  {escrow.state === 'awaitingAcceptance' && escrow.seller.equals(wallet.publicKey!) && (
+                    <>
+                      <button
+                        onClick={() => handleAcceptEscrow(escrow.escrow)}
+                        disabled={loading}
+                        className="bg-green-600 text-white px-3 py-1 text-sm rounded hover:bg-green-700 disabled:opacity-50"
+                      >
+                        Accept terms
+                      </button>
+                      
+                      <button
+                        onClick={() => handleRejectEscrow(escrow.escrow)}
+                        disabled={loading}
+                        className="bg-red-600 text-white px-3 py-1 text-sm rounded hover:bg-red-700 disabled:opacity-50"
+                      >
+                        Reject
+                      </button>
+                    </>
+                  )}
+                  
+                  {escrow.state === 'awaitingAcceptance' && escrow.buyer.equals(wallet.publicKey!) && (
+                    <p className="text-sm text-gray-600">Waiting for the seller to accept the terms</p>
+                  )}
+                  
                   {escrow.state === 'initialized' && escrow.buyer.equals(wallet.publicKey!) && (
                     <button
                       onClick={() => handleDepositFunds(escrow.escrow, escrow.mint)}
@@ -340,17 +965,77 @@ export const EscrowUI: React.FC<EscrowUIProps> = ({ programId }) => {
                     </button>
                   )}
                   
+                  {escrow.vesting && escrowClient && (escrow.state === 'funded' || escrow.state === 'cancelled') &&
+                    escrowClient.computeVested(escrow).gt(escrow.releasedAmount) &&
+                    escrow.seller.equals(wallet.publicKey!) && (
+                    <button
+                      onClick={() => handleWithdrawVested(escrow.escrow)}
+                      disabled={loading}
+                      className="bg-green-600 text-white px-3 py-1 text-sm rounded hover:bg-green-700 disabled:opacity-50"
+                    >
+                      Withdraw Vested
+                    </button>
+                  )}
+                  
+                  {escrow.counterMint && escrow.counterDepositedAmount.isZero() &&
+                    (escrow.state === 'initialized' || escrow.state === 'funded') &&
+                    escrow.seller.equals(wallet.publicKey!) && (
+                    <button
+                      onClick={() => handleDepositCounterAsset(escrow.escrow)}
+                      disabled={loading}
+                      className="bg-green-600 text-white px-3 py-1 text-sm rounded hover:bg-green-700 disabled:opacity-50"
+                    >
+                      Deposit Swap Asset
+                    </button>
+                  )}
+                  
+                  {escrow.counterMint && !escrow.counterDepositedAmount.isZero() &&
+                    ['initialized', 'awaitingAcceptance', 'cancelled', 'resolved'].includes(escrow.state) &&
+                    escrow.seller.equals(wallet.publicKey!) && (
+                    <button
+                      onClick={() => handleWithdrawCounterAsset(escrow.escrow)}
+                      disabled={loading}
+                      className="bg-red-600 text-white px-3 py-1 text-sm rounded hover:bg-red-700 disabled:opacity-50"
+                    >
+                      Withdraw Swap Asset
+                    </button>
+                  )}
+                  
+                  {escrow.state === 'funded' && escrow.counterMint && !escrow.counterDepositedAmount.isZero() && (
+                    <button
+                      onClick={() => handleSettleSwap(escrow.escrow)}
+                      disabled={loading}
+                      className="bg-blue-600 text-white px-3 py-1 text-sm rounded hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      Settle Swap
+                    </button>
+                  )}
+                  
                   {escrow.state === 'funded' && (
                     <>
-                      <button
-                        onClick={() => handleReleaseFunds(escrow.escrow)}
-                        disabled={loading}
-                        className="bg-blue-600 text-white px-3 py-1 text-sm rounded hover:bg-blue-700 disabled:opacity-50"
-                      >
-                        Release Funds
-                      </button>
+                      {escrow.secretHash && !escrowClient?.isTimedOut(escrow) && (
+                        <button
+                          onClick={() => handleClaimWithPreimage(escrow.escrow)}
+                          disabled={loading}
+                          className="bg-blue-600 text-white px-3 py-1 text-sm rounded hover:bg-blue-700 disabled:opacity-50"
+                        >
+                          Claim with Secret
+                        </button>
+                      )}
+                      
+                      {!escrow.counterMint && !escrow.vesting && !escrow.secretHash && (
+                        <button
+                          onClick={() => handleReleaseFunds(escrow.escrow)}
+                          disabled={loading}
+                          className="bg-blue-600 text-white px-3 py-1 text-sm rounded hover:bg-blue-700 disabled:opacity-50"
+                        >
+                          Release Funds
+                        </button>
+                      )}
                       
-                      {escrow.buyer.equals(wallet.publicKey!) && (
+                      {escrowClient?.actingParty(escrow, wallet.publicKey!, 'cancel').equals(escrow.buyer) &&
+                        !(escrow.counterMint && !escrow.counterDepositedAmount.isZero()) &&
+                        !(escrow.secretHash && !escrowClient.isTimedOut(escrow)) && (
                         <button
                           onClick={() => handleCancelEscrow(escrow.escrow)}
                           disabled={loading}
@@ -359,8 +1044,74 @@ export const EscrowUI: React.FC<EscrowUIProps> = ({ programId }) => {
                           Cancel Escrow
                         </button>
                       )}
+                      
+                      {escrowClient?.isTimedOut(escrow) && !escrow.counterMint && !escrow.vesting && (
+                        <button
+                          onClick={() => handleSettleExpired(escrow.escrow)}
+                          disabled={loading}
+                          className="bg-gray-600 text-white px-3 py-1 text-sm rounded hover:bg-gray-700 disabled:opacity-50"
+                        >
+                          {escrow.timeoutPolicy === 'refundToBuyer' ? 'Refund Buyer' : 'Settle to Seller'}
+                        </button>
+                      )}
+                      
+                      {(escrow.arbiter || escrow.arbiterPanel.length > 0) && (
+                        <button
+                          onClick={() => handleRaiseDispute(escrow.escrow)}
+                          disabled={loading}
+                          className="bg-orange-600 text-white px-3 py-1 text-sm rounded hover:bg-orange-700 disabled:opacity-50"
+                        >
+                          Raise Dispute
+                        </button>
+                      )}
                     </>
                   )}
+                  
+                  {escrow.state === 'disputed' && (
+                    <p className="text-sm text-orange-600">
+                      Awaiting arbiter ruling - timeout is frozen
+                    </p>
+                  )}
+                  
+                  {escrow.state === 'disputed' && escrowClient && escrow.arbiterPanel.length > 0 && (
+                    <div className="text-sm">
+                      <p className="font-medium">
+                        Panel votes ({escrow.arbiterVotes.length}/{escrow.arbiterPanel.length}, {escrow.arbiterThreshold} needed)
+                      </p>
+                      <ul>
+                        {escrowClient.tallyArbiterVotes(escrow.arbiterVotes).map((entry) => (
+                          <li key={entry.buyerShareBps}>
+                            {describeRuling(entry.buyerShareBps)}: {entry.votes}
+                          </li>
+                        ))}
+                      </ul>
+                      {escrow.arbiterPanel.some(member => member.equals(wallet.publicKey!)) && (
+                        <div className="flex gap-2 mt-2">
+                          <button
+                            onClick={() => handleCastVote(escrow.escrow, 'release')}
+                            disabled={loading}
+                            className="bg-blue-600 text-white px-2 py-0.5 text-xs rounded hover:bg-blue-700 disabled:opacity-50"
+                          >
+                            Vote Release
+                          </button>
+                          <button
+                            onClick={() => handleCastVote(escrow.escrow, 'refund')}
+                            disabled={loading}
+                            className="bg-red-600 text-white px-2 py-0.5 text-xs rounded hover:bg-red-700 disabled:opacity-50"
+                          >
+                            Vote Refund
+                          </button>
+                          <button
+                            onClick={() => handleCastVote(escrow.escrow, { split: 5000 })}
+                            disabled={loading}
+                            className="bg-gray-600 text-white px-2 py-0.5 text-xs rounded hover:bg-gray-700 disabled:opacity-50"
+                          >
+                            Vote 50/50
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  )}
                 </div>
               </div>
             ))}
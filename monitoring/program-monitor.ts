@@ -9,10 +9,14 @@ interface MonitoringConfig {
   checkIntervalMs: number;
 }
 
+// Config layout: discriminator, admin, fee_bps, treasury, bump, paused
+const CONFIG_PAUSED_OFFSET = 8 + 32 + 2 + 32 + 1;
+
 export class ProgramMonitor {
   private connection: Connection;
   private programId: PublicKey;
   private config: MonitoringConfig;
+  private paused?: boolean; // Last pause state seen, unknown until the first check
 
   constructor(config: MonitoringConfig) {
     this.config = config;
@@ -26,6 +30,7 @@ export class ProgramMonitor {
     setInterval(async () => {
       try {
         await this.checkProgramHealth();
+        await this.checkPauseStatus();
         await this.checkEscrowStats();
       } catch (error) {
         console.error('Monitoring error:', error);
@@ -50,6 +55,23 @@ export class ProgramMonitor {
     console.log(`✅ Program health check passed`);
   }
 
+  private async checkPauseStatus() {
+    const [configPda] = PublicKey.findProgramAddressSync([Buffer.from('config')], this.programId);
+    const accountInfo = await this.connection.getAccountInfo(configPda);
+    if (!accountInfo) return;
+
+    const paused = accountInfo.data[CONFIG_PAUSED_OFFSET] === 1;
+    if (this.paused !== undefined && paused !== this.paused) {
+      await this.sendAlert(
+        'Critical',
+        paused ? 'Program paused: new escrows and deposits are blocked' : 'Program unpaused'
+      );
+    } else if (this.paused === undefined && paused) {
+      await this.sendAlert('Warning', 'Program is paused');
+    }
+    this.paused = paused;
+  }
+
   private async checkEscrowStats() {
     try {
       const accounts = await this.connection.getProgramAccounts(this.programId);
@@ -0,0 +1,226 @@
+// monitoring/settlement-crank.ts - Settles timed-out escrows under their timeout policy
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as anchor from "@coral-xyz/anchor";
+import { Connection, Keypair, PublicKey } from "@solana/web3.js";
+import { EscrowSystem } from "../target/types/escrow_system";
+import { EscrowClient, EscrowClientError } from "../client/escrow-client";
+
+type EscrowAccount = anchor.IdlAccounts<EscrowSystem>["escrowAccount"];
+
+interface CrankConfig {
+  programId?: string; // Defaults to the address in the IDL
+  rpcEndpoint: string;
+  keypairPath: string; // Pays for settlements and any missing token accounts
+  idlPath: string;
+  stateFile: string; // Local record of processed escrows
+  checkIntervalMs: number;
+  maxRetries: number;
+  backoffBaseMs: number;
+  dryRun: boolean; // Only report what would be settled
+}
+
+interface ProcessedEscrow {
+  status: "settled" | "retrying" | "failed";
+  policy: string;
+  attempts: number;
+  signature?: string;
+  lastError?: string;
+  nextAttemptAt?: number;
+  updatedAt: string;
+}
+
+interface CrankState {
+  escrows: Record<string, ProcessedEscrow>;
+}
+
+export class SettlementCrank {
+  private connection: Connection;
+  private payer: Keypair;
+  private program: anchor.Program<EscrowSystem>;
+  private client: EscrowClient;
+  private config: CrankConfig;
+  private state: CrankState;
+  private running = false;
+
+  constructor(config: CrankConfig) {
+    this.config = config;
+    this.connection = new Connection(config.rpcEndpoint, "confirmed");
+    this.payer = Keypair.fromSecretKey(
+      Uint8Array.from(JSON.parse(fs.readFileSync(config.keypairPath, "utf8")))
+    );
+
+    const provider = new anchor.AnchorProvider(
+      this.connection,
+      new anchor.Wallet(this.payer),
+      anchor.AnchorProvider.defaultOptions()
+    );
+    const idl = JSON.parse(fs.readFileSync(config.idlPath, "utf8"));
+    if (config.programId) {
+      idl.address = config.programId;
+    }
+    this.program = new anchor.Program(
+      idl,
+      provider
+    ) as anchor.Program<EscrowSystem>;
+    this.client = new EscrowClient(this.program, provider);
+    this.state = this.loadState();
+  }
+
+  async start() {
+    console.log(
+      `Starting settlement crank for ${this.program.programId}${
+        this.config.dryRun ? " (dry run)" : ""
+      }`
+    );
+
+    await this.runOnce();
+    setInterval(() => this.runOnce(), this.config.checkIntervalMs);
+  }
+
+  /**
+   * Scan for expired escrows and settle each one that is due
+   */
+  async runOnce() {
+    // A slow pass must not overlap with the next interval
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const expired = await this.findExpiredEscrows();
+      console.log(`📊 ${expired.length} expired escrow(s) awaiting settlement`);
+
+      for (const { publicKey, account } of expired) {
+        const record = this.state.escrows[publicKey.toString()];
+        if (record?.status === "failed") continue;
+        if (record?.nextAttemptAt && record.nextAttemptAt > Date.now())
+          continue;
+
+        await this.settle(publicKey, account);
+      }
+    } catch (error) {
+      console.error("Crank error:", error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async findExpiredEscrows() {
+    // Compare against the cluster clock, which is what the program checks
+    const slot = await this.connection.getSlot();
+    const now =
+      (await this.connection.getBlockTime(slot)) ??
+      Math.floor(Date.now() / 1000);
+
+    const accounts = await this.program.account.escrowAccount.all();
+    // Swap and vesting escrows have their own payout paths and ignore the timeout
+    return accounts.filter(
+      ({ account }) =>
+        account.state.funded !== undefined &&
+        account.counterMint === null &&
+        account.vesting === null &&
+        account.timeoutAt !== null &&
+        account.timeoutAt.toNumber() <= now
+    );
+  }
+
+  private async settle(escrow: PublicKey, account: EscrowAccount) {
+    const key = escrow.toString();
+    const policy = Object.keys(account.timeoutPolicy)[0];
+    const amount = account.depositedAmount
+      .sub(account.releasedAmount)
+      .toString();
+
+    if (this.config.dryRun) {
+      console.log(
+        `🔎 Would settle ${key}: ${policy}, ${amount} of mint ${account.mint}`
+      );
+      return;
+    }
+
+    const previous = this.state.escrows[key];
+    const attempts = (previous?.attempts ?? 0) + 1;
+
+    try {
+      const signature = await this.client.settleExpired(this.payer, escrow);
+
+      console.log(`✅ Settled ${key} (${policy}): ${signature}`);
+      this.record(key, { status: "settled", policy, attempts, signature });
+    } catch (error) {
+      const message =
+        error instanceof EscrowClientError
+          ? `${error.code}: ${error.message}`
+          : error instanceof Error
+          ? error.message
+          : String(error);
+
+      if (attempts >= this.config.maxRetries) {
+        console.error(
+          `🚨 Giving up on ${key} after ${attempts} attempts: ${message}`
+        );
+        this.record(key, {
+          status: "failed",
+          policy,
+          attempts,
+          lastError: message,
+        });
+      } else {
+        const delay = this.config.backoffBaseMs * 2 ** (attempts - 1);
+        console.warn(
+          `⚠️ Settling ${key} failed (attempt ${attempts}), retrying in ${delay}ms: ${message}`
+        );
+        this.record(key, {
+          status: "retrying",
+          policy,
+          attempts,
+          lastError: message,
+          nextAttemptAt: Date.now() + delay,
+        });
+      }
+    }
+  }
+
+  private record(key: string, entry: Omit<ProcessedEscrow, "updatedAt">) {
+    this.state.escrows[key] = { ...entry, updatedAt: new Date().toISOString() };
+    this.saveState();
+  }
+
+  private loadState(): CrankState {
+    if (!fs.existsSync(this.config.stateFile)) {
+      return { escrows: {} };
+    }
+    return JSON.parse(fs.readFileSync(this.config.stateFile, "utf8"));
+  }
+
+  private saveState() {
+    // Write then rename so a crash never leaves a half-written record
+    const tmp = `${this.config.stateFile}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(this.state, null, 2));
+    fs.renameSync(tmp, this.config.stateFile);
+  }
+}
+
+// Usage: ts-node monitoring/settlement-crank.ts [--dry-run] [--once]
+if (require.main === module) {
+  const crank = new SettlementCrank({
+    programId: process.env.PROGRAM_ID,
+    rpcEndpoint: process.env.RPC_URL || "http://localhost:8899",
+    keypairPath:
+      process.env.CRANK_KEYPAIR ||
+      path.join(os.homedir(), ".config/solana/id.json"),
+    idlPath:
+      process.env.IDL_PATH ||
+      path.join(__dirname, "../target/idl/escrow_system.json"),
+    stateFile:
+      process.env.CRANK_STATE_FILE || path.join(__dirname, "crank-state.json"),
+    checkIntervalMs: 30000, // 30 seconds
+    maxRetries: 5,
+    backoffBaseMs: 5000,
+    dryRun: process.argv.includes("--dry-run"),
+  });
+
+  (process.argv.includes("--once") ? crank.runOnce() : crank.start()).catch(
+    console.error
+  );
+}
@@ -1,6 +1,14 @@
 // lib.rs - Main program file
 use anchor_lang::prelude::*;
-use anchor_spl::token::{self, Token, TokenAccount, Transfer, Mint};
+use anchor_lang::system_program;
+use anchor_lang::CheckOwner;
+use anchor_lang::solana_program::ed25519_program;
+use anchor_lang::solana_program::hash::hash;
+use anchor_lang::solana_program::sysvar::instructions::{
+    self as instructions_sysvar, load_current_index_checked, load_instruction_at_checked,
+};
+use anchor_spl::token::spl_token::native_mint;
+use anchor_spl::token_interface::{self, Mint, TokenAccount, TokenInterface, TransferChecked};
 
 declare_id!("7a6GBPdjMAfHTKtE4BqzDaynLUBLXpWzSJsVaAo5rMgj");
 
@@ -21,22 +29,23 @@ pub mod escrow_system {
         let clock = Clock::get()?;
         
         // Validate inputs
+        require!(!ctx.accounts.config.paused, EscrowError::ProgramPaused);
         require!(amount > 0, EscrowError::InvalidAmount);
-        require!(release_conditions.len() <= 500, EscrowError::ConditionsTooLong);
+        require!(release_conditions.len() <= MAX_CONDITIONS_LEN, EscrowError::ConditionsTooLong);
         
         // Initialize escrow state
-        escrow.buyer = ctx.accounts.buyer.key();
-        escrow.seller = seller;
-        escrow.mint = ctx.accounts.mint.key();
-        escrow.amount = amount;
-        escrow.escrow_seed = escrow_seed;
-        escrow.release_conditions = release_conditions;
-        escrow.state = EscrowState::Initialized;
-        escrow.created_at = clock.unix_timestamp;
-        escrow.timeout_at = timeout_duration.map(|duration| clock.unix_timestamp + duration);
-        escrow.arbiter = None;
-        escrow.bump = ctx.bumps.escrow;
-        escrow.vault_bump = ctx.bumps.vault;
+        escrow.init(
+            ctx.accounts.buyer.key(),
+            seller,
+            ctx.accounts.mint.key(),
+            amount,
+            escrow_seed,
+            release_conditions,
+            clock.unix_timestamp,
+            timeout_duration.map(|duration| clock.unix_timestamp + duration),
+            ctx.bumps.escrow,
+            ctx.bumps.vault,
+        );
 
         msg!("Escrow initialized with seed: {}", escrow_seed);
         emit!(EscrowCreated {
@@ -50,8 +59,64 @@ pub mod escrow_system {
         Ok(())
     }
 
+    /// Initialize an escrow whose release conditions live off-chain: only the
+    /// SHA-256 hash of the terms document and a short URI are stored, so the
+    /// account is allocated without room for inline conditions
+    pub fn initialize_escrow_with_terms(
+        ctx: Context<InitializeEscrowWithTerms>,
+        amount: u64,
+        escrow_seed: u64,
+        seller: Pubkey,
+        terms_hash: [u8; 32],
+        terms_uri: String,
+        timeout_duration: Option<i64>,
+    ) -> Result<()> {
+        let escrow = &mut ctx.accounts.escrow;
+        let clock = Clock::get()?;
+
+        require!(!ctx.accounts.config.paused, EscrowError::ProgramPaused);
+        require!(amount > 0, EscrowError::InvalidAmount);
+        require!(terms_uri.len() <= MAX_TERMS_URI_LEN, EscrowError::TermsUriTooLong);
+
+        escrow.init(
+            ctx.accounts.buyer.key(),
+            seller,
+            ctx.accounts.mint.key(),
+            amount,
+            escrow_seed,
+            String::new(),
+            clock.unix_timestamp,
+            timeout_duration.map(|duration| clock.unix_timestamp + duration),
+            ctx.bumps.escrow,
+            ctx.bumps.vault,
+        );
+        escrow.terms_hash = Some(terms_hash);
+        escrow.terms_uri = terms_uri;
+
+        msg!("Escrow initialized with terms, seed: {}", escrow_seed);
+        emit!(EscrowCreated {
+            escrow: escrow.key(),
+            buyer: escrow.buyer,
+            seller: escrow.seller,
+            amount: escrow.amount,
+            mint: escrow.mint,
+        });
+        emit!(TermsUpdated {
+            escrow: escrow.key(),
+            terms_hash,
+            terms_uri: escrow.terms_uri.clone(),
+        });
+
+        Ok(())
+    }
+
     /// Deposit funds into escrow (buyer deposits funds)
     pub fn deposit(ctx: Context<Deposit>) -> Result<()> {
+        require!(!ctx.accounts.config.paused, EscrowError::ProgramPaused);
+        require!(
+            ctx.accounts.escrow.state != EscrowState::AwaitingAcceptance,
+            EscrowError::AcceptancePending
+        );
         require!(
             ctx.accounts.escrow.state == EscrowState::Initialized,
             EscrowError::InvalidState
@@ -63,34 +128,62 @@ pub mod escrow_system {
 
         let amount = ctx.accounts.escrow.amount;
         let escrow_key = ctx.accounts.escrow.key();
-        
-        // Transfer tokens from buyer to vault
-        let transfer_ctx = CpiContext::new(
-            ctx.accounts.token_program.to_account_info(),
-            Transfer {
-                from: ctx.accounts.depositor_token_account.to_account_info(),
-                to: ctx.accounts.vault.to_account_info(),
-                authority: ctx.accounts.depositor.to_account_info(),
-            },
-        );
-        token::transfer(transfer_ctx, amount)?;
+        let holds_lamports = ctx.accounts.escrow.mint == native_mint::ID;
+
+        let received_amount = if holds_lamports {
+            // Native SOL stays as lamports on the escrow account, so payouts
+            // reach wallets directly instead of as wSOL
+            system_program::transfer(
+                CpiContext::new(
+                    ctx.accounts.system_program.to_account_info(),
+                    system_program::Transfer {
+                        from: ctx.accounts.depositor.to_account_info(),
+                        to: ctx.accounts.escrow.to_account_info(),
+                    },
+                ),
+                amount,
+            )?;
+            amount
+        } else {
+            let vault_balance_before = ctx.accounts.vault.amount;
+
+            // Transfer tokens from buyer to vault
+            let transfer_ctx = CpiContext::new(
+                ctx.accounts.token_program.to_account_info(),
+                TransferChecked {
+                    from: ctx.accounts.depositor_token_account.to_account_info(),
+                    mint: ctx.accounts.mint.to_account_info(),
+                    to: ctx.accounts.vault.to_account_info(),
+                    authority: ctx.accounts.depositor.to_account_info(),
+                },
+            );
+            token_interface::transfer_checked(transfer_ctx, amount, ctx.accounts.mint.decimals)?;
+
+            // Mints with a transfer fee deliver less than `amount`, so record what
+            // actually arrived and pay out from that
+            ctx.accounts.vault.reload()?;
+            ctx.accounts.vault.amount - vault_balance_before
+        };
 
         // Now take mutable borrow to update state
         let escrow = &mut ctx.accounts.escrow;
+        escrow.deposited_amount = received_amount;
+        escrow.holds_lamports = holds_lamports;
         escrow.state = EscrowState::Funded;
         escrow.funded_at = Some(Clock::get()?.unix_timestamp);
 
-        msg!("Escrow funded with {} tokens", amount);
+        msg!("Escrow funded with {} tokens", received_amount);
         emit!(EscrowFunded {
             escrow: escrow_key,
             amount,
+            received_amount,
         });
 
         Ok(())
     }
 
     /// Release funds to seller (buyer confirms or timeout reached)
-    pub fn release(ctx: Context<Release>) -> Result<()> {
+    pub fn release<'info>(ctx: Context<'_, '_, 'info, 'info, Release<'info>>) -> Result<()> {
         let clock = Clock::get()?;
         
         require!(
@@ -98,43 +191,45 @@ pub mod escrow_system {
             EscrowError::InvalidState
         );
 
-        let authority = ctx.accounts.authority.key();
-        let can_release = authority == ctx.accounts.escrow.buyer || 
-                         authority == ctx.accounts.escrow.seller ||
-                         (ctx.accounts.escrow.arbiter.is_some() && authority == ctx.accounts.escrow.arbiter.unwrap()) ||
-                         (ctx.accounts.escrow.timeout_at.is_some() && clock.unix_timestamp >= ctx.accounts.escrow.timeout_at.unwrap());
+        require!(!ctx.accounts.escrow.is_swap(), EscrowError::SwapEscrow);
+        require!(ctx.accounts.escrow.vesting.is_none(), EscrowError::VestingEscrow);
+        require!(ctx.accounts.escrow.hash_lock.is_none(), EscrowError::HashLocked);
 
-        require!(can_release, EscrowError::UnauthorizedRelease);
+        // A delegate with release rights acts as the party that registered it
+        let authority = ctx.accounts.escrow.acting_party(
+            ctx.accounts.authority.key(),
+            DELEGATE_RELEASE,
+            clock.unix_timestamp,
+        );
+        require!(
+            ctx.accounts.escrow.can_release(authority, clock.unix_timestamp),
+            EscrowError::UnauthorizedRelease
+        );
 
-        // Store values we need before taking mutable borrow
-        let buyer = ctx.accounts.escrow.buyer;
-        let escrow_seed = ctx.accounts.escrow.escrow_seed;
-        let bump = ctx.accounts.escrow.bump;
-        let amount = ctx.accounts.escrow.amount;
+        // Only the portion not yet paid out through milestones is left in the vault
+        let amount = ctx.accounts.escrow.remaining_amount();
         let escrow_key = ctx.accounts.escrow.key();
         
-        // Transfer tokens from vault to seller
-        let escrow_seeds = &[
-            b"escrow",
-            buyer.as_ref(),
-            &escrow_seed.to_le_bytes(),
-            &[bump],
-        ];
-        let signer_seeds = &[&escrow_seeds[..]];
-
-        let transfer_ctx = CpiContext::new_with_signer(
-            ctx.accounts.token_program.to_account_info(),
-            Transfer {
-                from: ctx.accounts.vault.to_account_info(),
-                to: ctx.accounts.seller_token_account.to_account_info(),
-                authority: ctx.accounts.escrow.to_account_info(),
-            },
-            signer_seeds,
-        );
-        token::transfer(transfer_ctx, amount)?;
+        // Transfer tokens from vault to seller, minus the protocol fee
+        let fee = transfer_to_seller(
+            &ctx.accounts.escrow,
+            &ctx.accounts.vault,
+            &ctx.accounts.seller_token_account,
+            &ctx.accounts.treasury_token_account,
+            &ctx.accounts.config,
+            &ctx.accounts.mint,
+            &ctx.accounts.token_program,
+            ctx.remaining_accounts,
+            amount,
+        )?;
 
         // Now take mutable borrow to update state
         let escrow = &mut ctx.accounts.escrow;
+        for milestone in escrow.milestones.iter_mut().filter(|m| !m.released) {
+            milestone.released = true;
+            milestone.released_at = Some(clock.unix_timestamp);
+        }
+        escrow.released_amount = escrow.deposited_amount;
         escrow.state = EscrowState::Released;
         escrow.released_at = Some(clock.unix_timestamp);
         escrow.released_by = Some(authority);
@@ -144,6 +239,66 @@ pub mod escrow_system {
             escrow: escrow_key,
             released_by: authority,
             amount,
+            fee,
+        });
+
+        Ok(())
+    }
+
+    /// Release funds to the seller on a signed attestation from the escrow's
+    /// attestor over `(escrow, condition_hash)`. Anyone can submit it; the
+    /// ed25519 verify instruction must come right before this one.
+    pub fn release_with_attestation<'info>(
+        ctx: Context<'_, '_, 'info, 'info, ReleaseWithAttestation<'info>>,
+    ) -> Result<()> {
+        let clock = Clock::get()?;
+
+        require!(
+            ctx.accounts.escrow.state == EscrowState::Funded,
+            EscrowError::InvalidState
+        );
+        require!(!ctx.accounts.escrow.is_swap(), EscrowError::SwapEscrow);
+        require!(ctx.accounts.escrow.vesting.is_none(), EscrowError::VestingEscrow);
+        require!(ctx.accounts.escrow.hash_lock.is_none(), EscrowError::HashLocked);
+
+        let attestor = ctx.accounts.escrow.attestor.ok_or(EscrowError::AttestorNotSet)?;
+        let escrow_key = ctx.accounts.escrow.key();
+        let condition_hash = ctx.accounts.escrow.condition_hash;
+        let message = [escrow_key.as_ref(), condition_hash.as_ref()].concat();
+        verify_attestation(&ctx.accounts.instructions, &attestor, &message)?;
+
+        // Store values before mutable borrow
+        let amount = ctx.accounts.escrow.remaining_amount();
+        let authority = ctx.accounts.authority.key();
+
+        let fee = transfer_to_seller(
+            &ctx.accounts.escrow,
+            &ctx.accounts.vault,
+            &ctx.accounts.seller_token_account,
+            &ctx.accounts.treasury_token_account,
+            &ctx.accounts.config,
+            &ctx.accounts.mint,
+            &ctx.accounts.token_program,
+            ctx.remaining_accounts,
+            amount,
+        )?;
+
+        let escrow = &mut ctx.accounts.escrow;
+        for milestone in escrow.milestones.iter_mut().filter(|m| !m.released) {
+            milestone.released = true;
+            milestone.released_at = Some(clock.unix_timestamp);
+        }
+        escrow.released_amount = escrow.deposited_amount;
+        escrow.state = EscrowState::Released;
+        escrow.released_at = Some(clock.unix_timestamp);
+        escrow.released_by = Some(authority);
+
+        msg!("Escrow released on attestation from {}", attestor);
+        emit!(EscrowReleased {
+            escrow: escrow_key,
+            released_by: authority,
+            amount,
+            fee,
         });
 
         Ok(())
@@ -152,50 +307,59 @@ pub mod escrow_system {
     /// Cancel escrow and return funds to buyer
     pub fn cancel(ctx: Context<Cancel>) -> Result<()> {
         require!(
-            ctx.accounts.escrow.state == EscrowState::Funded || ctx.accounts.escrow.state == EscrowState::Initialized,
+            ctx.accounts.escrow.state == EscrowState::Funded || ctx.accounts.escrow.is_unfunded(),
             EscrowError::InvalidState
         );
 
-        let authority = ctx.accounts.authority.key();
+        let now = Clock::get()?.unix_timestamp;
+        let authority = ctx.accounts.escrow.acting_party(
+            ctx.accounts.authority.key(),
+            DELEGATE_CANCEL,
+            now,
+        );
         let can_cancel = authority == ctx.accounts.escrow.buyer || 
                         (ctx.accounts.escrow.arbiter.is_some() && authority == ctx.accounts.escrow.arbiter.unwrap());
 
         require!(can_cancel, EscrowError::UnauthorizedCancel);
+        // Once both sides of a swap are in, the only way out is the swap itself
+        require!(
+            !(ctx.accounts.escrow.state == EscrowState::Funded &&
+                ctx.accounts.escrow.counter_deposited_amount > 0),
+            EscrowError::SwapReady
+        );
+        // A funded hash lock can only be refunded once the deadline has passed
+        require!(
+            ctx.accounts.escrow.hash_lock.is_none() ||
+                ctx.accounts.escrow.state != EscrowState::Funded ||
+                ctx.accounts.escrow.is_expired(now),
+            EscrowError::HashLocked
+        );
 
         // Store values we need before taking mutable borrow
         let state = ctx.accounts.escrow.state;
-        let buyer = ctx.accounts.escrow.buyer;
-        let escrow_seed = ctx.accounts.escrow.escrow_seed;
-        let bump = ctx.accounts.escrow.bump;
-        let amount = ctx.accounts.escrow.amount;
+        // Vested funds stay in the vault for the seller to withdraw
+        let amount = match ctx.accounts.escrow.vesting {
+            Some(_) => ctx.accounts.escrow.deposited_amount - ctx.accounts.escrow.vested_amount(now),
+            None => ctx.accounts.escrow.remaining_amount(),
+        };
         let escrow_key = ctx.accounts.escrow.key();
 
-        // Only transfer if escrow is funded
-        if state == EscrowState::Funded {
-            let escrow_seeds = &[
-                b"escrow",
-                buyer.as_ref(),
-                &escrow_seed.to_le_bytes(),
-                &[bump],
-            ];
-            let signer_seeds = &[&escrow_seeds[..]];
-
-            let transfer_ctx = CpiContext::new_with_signer(
-                ctx.accounts.token_program.to_account_info(),
-                Transfer {
-                    from: ctx.accounts.vault.to_account_info(),
-                    to: ctx.accounts.buyer_token_account.to_account_info(),
-                    authority: ctx.accounts.escrow.to_account_info(),
-                },
-                signer_seeds,
-            );
-            token::transfer(transfer_ctx, amount)?;
+        // Only transfer if escrow is funded; milestones already paid out stay with the seller
+        if state == EscrowState::Funded && amount > 0 {
+            pay_from_vault(
+                &ctx.accounts.escrow,
+                &ctx.accounts.vault,
+                &ctx.accounts.buyer_token_account,
+                &ctx.accounts.mint,
+                &ctx.accounts.token_program,
+                amount,
+            )?;
         }
 
         // Now take mutable borrow to update state
         let escrow = &mut ctx.accounts.escrow;
         escrow.state = EscrowState::Cancelled;
-        escrow.cancelled_at = Some(Clock::get()?.unix_timestamp);
+        escrow.cancelled_at = Some(now);
         escrow.cancelled_by = Some(authority);
 
         msg!("Escrow cancelled");
@@ -207,12 +371,200 @@ pub mod escrow_system {
         Ok(())
     }
 
+    /// Release a single milestone to the seller
+    pub fn release_milestone<'info>(
+        ctx: Context<'_, '_, 'info, 'info, Release<'info>>,
+        milestone_index: u8,
+    ) -> Result<()> {
+        let clock = Clock::get()?;
+
+        require!(
+            ctx.accounts.escrow.state == EscrowState::Funded,
+            EscrowError::InvalidState
+        );
+
+        require!(!ctx.accounts.escrow.is_swap(), EscrowError::SwapEscrow);
+        require!(ctx.accounts.escrow.vesting.is_none(), EscrowError::VestingEscrow);
+        require!(ctx.accounts.escrow.hash_lock.is_none(), EscrowError::HashLocked);
+
+        // A delegate with release rights acts as the party that registered it
+        let authority = ctx.accounts.escrow.acting_party(
+            ctx.accounts.authority.key(),
+            DELEGATE_RELEASE,
+            clock.unix_timestamp,
+        );
+        require!(
+            ctx.accounts.escrow.can_release(authority, clock.unix_timestamp),
+            EscrowError::UnauthorizedRelease
+        );
+
+        let index = milestone_index as usize;
+        require!(
+            index < ctx.accounts.escrow.milestones.len(),
+            EscrowError::InvalidMilestone
+        );
+        require!(
+            !ctx.accounts.escrow.milestones[index].released,
+            EscrowError::MilestoneAlreadyReleased
+        );
+
+        // The last open milestone takes whatever is left, which absorbs any
+        // shortfall from transfer-fee mints
+        let escrow_ref = &ctx.accounts.escrow;
+        let remaining = escrow_ref.remaining_amount();
+        let open_milestones = escrow_ref.milestones.iter().filter(|m| !m.released).count();
+        let amount = if open_milestones == 1 {
+            remaining
+        } else {
+            escrow_ref.milestones[index].amount.min(remaining)
+        };
+        let escrow_key = ctx.accounts.escrow.key();
+
+        let fee = transfer_to_seller(
+            &ctx.accounts.escrow,
+            &ctx.accounts.vault,
+            &ctx.accounts.seller_token_account,
+            &ctx.accounts.treasury_token_account,
+            &ctx.accounts.config,
+            &ctx.accounts.mint,
+            &ctx.accounts.token_program,
+            ctx.remaining_accounts,
+            amount,
+        )?;
+
+        // Now take mutable borrow to update state
+        let escrow = &mut ctx.accounts.escrow;
+        escrow.milestones[index].released = true;
+        escrow.milestones[index].released_at = Some(clock.unix_timestamp);
+        escrow.released_amount = escrow
+            .released_amount
+            .checked_add(amount)
+            .ok_or(EscrowError::InvalidAmount)?;
+
+        // The escrow completes once the last milestone is paid out
+        if escrow.milestones.iter().all(|m| m.released) {
+            escrow.state = EscrowState::Released;
+            escrow.released_at = Some(clock.unix_timestamp);
+            escrow.released_by = Some(authority);
+        }
+
+        msg!("Milestone {} released to seller", milestone_index);
+        emit!(MilestoneReleased {
+            escrow: escrow_key,
+            milestone_index,
+            released_by: authority,
+            amount,
+            fee,
+            remaining_amount: escrow.remaining_amount(),
+        });
+
+        Ok(())
+    }
+
+    /// Split the escrow amount into milestones (only before funding)
+    pub fn set_milestones(
+        ctx: Context<SetMilestones>,
+        milestones: Vec<MilestoneInput>,
+    ) -> Result<()> {
+        let escrow = &mut ctx.accounts.escrow;
+
+        require!(escrow.is_unfunded(), EscrowError::InvalidState);
+        require!(
+            ctx.accounts.authority.key() == escrow.buyer,
+            EscrowError::UnauthorizedUpdate
+        );
+        require!(!escrow.is_swap(), EscrowError::SwapEscrow);
+        require!(escrow.vesting.is_none(), EscrowError::VestingEscrow);
+        require!(escrow.hash_lock.is_none(), EscrowError::HashLocked);
+        require!(
+            milestones.len() <= MAX_MILESTONES,
+            EscrowError::TooManyMilestones
+        );
+
+        // An empty list turns the escrow back into a single-shot release
+        let mut total: u64 = 0;
+        for milestone in milestones.iter() {
+            require!(milestone.amount > 0, EscrowError::InvalidAmount);
+            require!(
+                milestone.description.len() <= MAX_MILESTONE_DESCRIPTION_LEN,
+                EscrowError::MilestoneDescriptionTooLong
+            );
+            total = total
+                .checked_add(milestone.amount)
+                .ok_or(EscrowError::InvalidAmount)?;
+        }
+        require!(
+            milestones.is_empty() || total == escrow.amount,
+            EscrowError::MilestoneAmountMismatch
+        );
+
+        escrow.milestones = milestones
+            .into_iter()
+            .map(|milestone| Milestone {
+                amount: milestone.amount,
+                description: milestone.description,
+                released: false,
+                released_at: None,
+            })
+            .collect();
+        escrow.reset_acceptance();
+
+        msg!("{} milestones set", escrow.milestones.len());
+        emit!(MilestonesSet {
+            escrow: escrow.key(),
+            count: escrow.milestones.len() as u8,
+            total_amount: total,
+        });
+
+        Ok(())
+    }
+
+    /// Split seller payouts between several recipients (only before funding)
+    pub fn set_recipients(
+        ctx: Context<SetRecipients>,
+        recipients: Vec<Recipient>,
+    ) -> Result<()> {
+        let escrow = &mut ctx.accounts.escrow;
+
+        require!(escrow.is_unfunded(), EscrowError::InvalidState);
+        require!(
+            ctx.accounts.authority.key() == escrow.buyer,
+            EscrowError::UnauthorizedUpdate
+        );
+        require!(
+            escrow.counter_deposited_amount == 0,
+            EscrowError::CounterAssetDeposited
+        );
+        require!(
+            recipients.len() <= MAX_RECIPIENTS,
+            EscrowError::TooManyRecipients
+        );
+
+        // An empty list pays the seller alone again
+        let total: u32 = recipients.iter().map(|r| r.share_bps as u32).sum();
+        require!(
+            recipients.is_empty() || total == MAX_BASIS_POINTS as u32,
+            EscrowError::RecipientSharesMismatch
+        );
+
+        escrow.recipients = recipients;
+        escrow.reset_acceptance();
+
+        msg!("{} recipients set", escrow.recipients.len());
+        emit!(RecipientsSet {
+            escrow: escrow.key(),
+            count: escrow.recipients.len() as u8,
+        });
+
+        Ok(())
+    }
+
     /// Set an arbiter for dispute resolution
     pub fn set_arbiter(ctx: Context<SetArbiter>, arbiter: Pubkey) -> Result<()> {
         let escrow = &mut ctx.accounts.escrow;
         
         require!(
-            escrow.state == EscrowState::Initialized || escrow.state == EscrowState::Funded,
+            escrow.is_unfunded() || escrow.state == EscrowState::Funded,
             EscrowError::InvalidState
         );
         require!(
@@ -231,88 +583,1659 @@ pub mod escrow_system {
         Ok(())
     }
 
-    /// Update escrow conditions (only before funding)
-    pub fn update_conditions(
-        ctx: Context<UpdateConditions>,
-        new_conditions: String,
-    ) -> Result<()> {
+    /// Lock the escrow to a SHA-256 hash: revealing the preimage before the
+    /// timeout releases it to the seller, after the timeout the buyer is refunded
+    pub fn set_hash_lock(ctx: Context<SetHashLock>, secret_hash: [u8; 32]) -> Result<()> {
         let escrow = &mut ctx.accounts.escrow;
-        
+
+        require!(escrow.is_unfunded(), EscrowError::InvalidState);
         require!(
-            escrow.state == EscrowState::Initialized,
+            ctx.accounts.authority.key() == escrow.buyer,
+            EscrowError::UnauthorizedUpdate
+        );
+        require!(escrow.timeout_at.is_some(), EscrowError::HashLockNeedsTimeout);
+        require!(!escrow.is_swap(), EscrowError::SwapEscrow);
+        require!(escrow.vesting.is_none(), EscrowError::VestingEscrow);
+        require!(escrow.milestones.is_empty(), EscrowError::HashLocked);
+
+        escrow.hash_lock = Some(secret_hash);
+        escrow.timeout_policy = TimeoutPolicy::RefundToBuyer;
+        escrow.reset_acceptance();
+
+        msg!("Hash lock set");
+        emit!(HashLockSet {
+            escrow: escrow.key(),
+            secret_hash,
+        });
+
+        Ok(())
+    }
+
+    /// Release a hash-locked escrow to the seller by revealing the preimage
+    /// before the timeout (anyone can call this)
+    pub fn claim_with_preimage<'info>(
+        ctx: Context<'_, '_, 'info, 'info, Release<'info>>,
+        preimage: Vec<u8>,
+    ) -> Result<()> {
+        let clock = Clock::get()?;
+
+        require!(
+            ctx.accounts.escrow.state == EscrowState::Funded,
             EscrowError::InvalidState
         );
+        let secret_hash = ctx.accounts.escrow.hash_lock.ok_or(EscrowError::NotHashLocked)?;
+        // Swaps and vesting schedules have their own payout paths
+        require!(!ctx.accounts.escrow.is_swap(), EscrowError::SwapEscrow);
+        require!(ctx.accounts.escrow.vesting.is_none(), EscrowError::VestingEscrow);
+        require!(
+            !ctx.accounts.escrow.is_expired(clock.unix_timestamp),
+            EscrowError::HashLockExpired
+        );
+        require!(
+            preimage.len() <= MAX_PREIMAGE_LEN && hash(&preimage).to_bytes() == secret_hash,
+            EscrowError::InvalidPreimage
+        );
+
+        // Store values before mutable borrow
+        let amount = ctx.accounts.escrow.remaining_amount();
+        let escrow_key = ctx.accounts.escrow.key();
+        let claimed_by = ctx.accounts.authority.key();
+
+        let fee = transfer_to_seller(
+            &ctx.accounts.escrow,
+            &ctx.accounts.vault,
+            &ctx.accounts.seller_token_account,
+            &ctx.accounts.treasury_token_account,
+            &ctx.accounts.config,
+            &ctx.accounts.mint,
+            &ctx.accounts.token_program,
+            ctx.remaining_accounts,
+            amount,
+        )?;
+
+        let escrow = &mut ctx.accounts.escrow;
+        escrow.released_amount = escrow.deposited_amount;
+        escrow.state = EscrowState::Released;
+        escrow.released_at = Some(clock.unix_timestamp);
+        escrow.released_by = Some(claimed_by);
+
+        msg!("Hash lock claimed");
+        emit!(PreimageRevealed {
+            escrow: escrow_key,
+            claimed_by,
+            preimage,
+            amount,
+            fee,
+        });
+
+        Ok(())
+    }
+
+    /// Name the attestor whose signature over `(escrow, condition_hash)`
+    /// releases the escrow (only before funding)
+    pub fn set_attestation(
+        ctx: Context<SetAttestation>,
+        attestor: Pubkey,
+        condition_hash: [u8; 32],
+    ) -> Result<()> {
+        let escrow = &mut ctx.accounts.escrow;
+
+        require!(escrow.is_unfunded(), EscrowError::InvalidState);
         require!(
             ctx.accounts.authority.key() == escrow.buyer,
             EscrowError::UnauthorizedUpdate
         );
-        require!(new_conditions.len() <= 500, EscrowError::ConditionsTooLong);
 
-        escrow.release_conditions = new_conditions.clone();
+        escrow.attestor = Some(attestor);
+        escrow.condition_hash = condition_hash;
+        escrow.reset_acceptance();
 
-        msg!("Conditions updated");
-        emit!(ConditionsUpdated {
+        msg!("Attestor set: {}", attestor);
+        emit!(AttestationSet {
             escrow: escrow.key(),
-            conditions: new_conditions,
+            attestor,
+            condition_hash,
         });
 
         Ok(())
     }
 
-    /// Close escrow account and recover rent (only after completion)
-    pub fn close_escrow(ctx: Context<CloseEscrow>) -> Result<()> {
-        let escrow = &ctx.accounts.escrow;
-        
+    /// Register a delegate that may release and/or cancel on behalf of the
+    /// buyer, seller or arbiter, optionally until `expires_at`. Each party has
+    /// at most one delegate; registering again replaces it.
+    pub fn set_delegate(
+        ctx: Context<SetDelegate>,
+        delegate: Pubkey,
+        expires_at: Option<i64>,
+        actions: u8,
+    ) -> Result<()> {
+        let clock = Clock::get()?;
+        let escrow = &mut ctx.accounts.escrow;
+
         require!(
-            escrow.state == EscrowState::Released || escrow.state == EscrowState::Cancelled,
+            escrow.is_unfunded() || escrow.state == EscrowState::Funded,
             EscrowError::InvalidState
         );
+
+        let party = ctx.accounts.authority.key();
         require!(
-            ctx.accounts.authority.key() == escrow.buyer,
-            EscrowError::UnauthorizedClose
+            party == escrow.buyer || party == escrow.seller || escrow.arbiter == Some(party),
+            EscrowError::UnauthorizedDelegation
+        );
+        require!(
+            delegate != party &&
+                actions != 0 &&
+                actions & !(DELEGATE_RELEASE | DELEGATE_CANCEL) == 0 &&
+                expires_at.map_or(true, |expires_at| expires_at > clock.unix_timestamp),
+            EscrowError::InvalidDelegate
         );
 
-        // Account will be closed automatically by Anchor
-        msg!("Escrow account closed");
+        // Also drop delegates of parties replaced since (e.g. an amended seller)
+        let (buyer, seller, arbiter) = (escrow.buyer, escrow.seller, escrow.arbiter);
+        escrow.delegates.retain(|d| {
+            d.party != party &&
+                (d.party == buyer || d.party == seller || arbiter == Some(d.party))
+        });
+        escrow.delegates.push(Delegate {
+            party,
+            delegate,
+            expires_at,
+            actions,
+        });
+
+        msg!("Delegate set: {} for {}", delegate, party);
+        emit!(DelegateSet {
+            escrow: escrow.key(),
+            party,
+            delegate,
+            expires_at,
+            actions,
+        });
 
         Ok(())
     }
-}
 
-// Account structures
-#[derive(Accounts)]
-#[instruction(amount: u64, escrow_seed: u64, seller: Pubkey)]
-pub struct InitializeEscrow<'info> {
-    #[account(
-        init,
-        payer = buyer,
-        space = EscrowAccount::SIZE,
-        seeds = [b"escrow", buyer.key().as_ref(), &escrow_seed.to_le_bytes()],
-        bump
-    )]
-    pub escrow: Account<'info, EscrowAccount>,
-    
-    #[account(
-        init,
+    /// Remove the signer's delegate
+    pub fn revoke_delegate(ctx: Context<SetDelegate>) -> Result<()> {
+        let escrow = &mut ctx.accounts.escrow;
+        let party = ctx.accounts.authority.key();
+
+        let index = escrow
+            .delegates
+            .iter()
+            .position(|d| d.party == party)
+            .ok_or(EscrowError::DelegateNotFound)?;
+        let removed = escrow.delegates.remove(index);
+
+        msg!("Delegate revoked: {}", removed.delegate);
+        emit!(DelegateRevoked {
+            escrow: escrow.key(),
+            party,
+            delegate: removed.delegate,
+        });
+
+        Ok(())
+    }
+
+    /// Choose what happens to the funds when the timeout passes (only before funding)
+    pub fn set_timeout_policy(ctx: Context<SetTimeoutPolicy>, policy: TimeoutPolicy) -> Result<()> {
+        let escrow = &mut ctx.accounts.escrow;
+
+        require!(escrow.is_unfunded(), EscrowError::InvalidState);
+        require!(
+            ctx.accounts.authority.key() == escrow.buyer,
+            EscrowError::UnauthorizedUpdate
+        );
+
+        // Hash locks always refund the buyer at the deadline
+        require!(
+            escrow.hash_lock.is_none() || policy == TimeoutPolicy::RefundToBuyer,
+            EscrowError::HashLocked
+        );
+
+        escrow.timeout_policy = policy;
+        escrow.reset_acceptance();
+
+        msg!("Timeout policy set");
+        emit!(TimeoutPolicySet {
+            escrow: escrow.key(),
+            policy,
+        });
+
+        Ok(())
+    }
+
+    /// Apply the timeout policy to an expired escrow (anyone can call this)
+    pub fn settle_expired<'info>(ctx: Context<'_, '_, 'info, 'info, SettleExpired<'info>>) -> Result<()> {
+        let clock = Clock::get()?;
+
+        require!(
+            ctx.accounts.escrow.state == EscrowState::Funded,
+            EscrowError::InvalidState
+        );
+        require!(
+            ctx.accounts.escrow.is_expired(clock.unix_timestamp),
+            EscrowError::NotExpired
+        );
+        require!(!ctx.accounts.escrow.is_swap(), EscrowError::SwapEscrow);
+        require!(ctx.accounts.escrow.vesting.is_none(), EscrowError::VestingEscrow);
+
+        // Store values before mutable borrow
+        let policy = ctx.accounts.escrow.timeout_policy;
+        let amount = ctx.accounts.escrow.remaining_amount();
+        let escrow_key = ctx.accounts.escrow.key();
+        let settled_by = ctx.accounts.authority.key();
+
+        let fee = match policy {
+            TimeoutPolicy::ReleaseToSeller => transfer_to_seller(
+                &ctx.accounts.escrow,
+                &ctx.accounts.vault,
+                &ctx.accounts.seller_token_account,
+                &ctx.accounts.treasury_token_account,
+                &ctx.accounts.config,
+                &ctx.accounts.mint,
+                &ctx.accounts.token_program,
+                ctx.remaining_accounts,
+                amount,
+            )?,
+            TimeoutPolicy::RefundToBuyer => {
+                if amount > 0 {
+                    pay_from_vault(
+                        &ctx.accounts.escrow,
+                        &ctx.accounts.vault,
+                        &ctx.accounts.buyer_token_account,
+                        &ctx.accounts.mint,
+                        &ctx.accounts.token_program,
+                        amount,
+                    )?;
+                }
+                0
+            }
+        };
+
+        // Now take mutable borrow to update state
+        let escrow = &mut ctx.accounts.escrow;
+        match policy {
+            TimeoutPolicy::ReleaseToSeller => {
+                for milestone in escrow.milestones.iter_mut().filter(|m| !m.released) {
+                    milestone.released = true;
+                    milestone.released_at = Some(clock.unix_timestamp);
+                }
+                escrow.released_amount = escrow.deposited_amount;
+                escrow.state = EscrowState::Released;
+                escrow.released_at = Some(clock.unix_timestamp);
+                escrow.released_by = Some(settled_by);
+            }
+            TimeoutPolicy::RefundToBuyer => {
+                escrow.state = EscrowState::Cancelled;
+                escrow.cancelled_at = Some(clock.unix_timestamp);
+                escrow.cancelled_by = Some(settled_by);
+            }
+        }
+
+        msg!("Expired escrow settled");
+        emit!(EscrowExpired {
+            escrow: escrow_key,
+            settled_by,
+            policy,
+            amount,
+            fee,
+        });
+
+        Ok(())
+    }
+
+    /// Push the timeout of a funded escrow later, agreed by buyer and seller or decided by the arbiter
+    pub fn extend_timeout(ctx: Context<ExtendTimeout>, new_timeout_at: i64) -> Result<()> {
+        let escrow = &mut ctx.accounts.escrow;
+        let clock = Clock::get()?;
+
+        require!(
+            escrow.state == EscrowState::Funded,
+            EscrowError::InvalidState
+        );
+
+        let authority = ctx.accounts.authority.key();
+        let co_signer = ctx.accounts.co_signer.as_ref().map(|signer| signer.key());
+        let signed_by = |party: Pubkey| authority == party || co_signer == Some(party);
+        require!(
+            escrow.arbiter == Some(authority) ||
+                (signed_by(escrow.buyer) && signed_by(escrow.seller)),
+            EscrowError::UnauthorizedExtension
+        );
+
+        // Only ever later: an escrow without a deadline has nothing to extend
+        let old_timeout_at = escrow.timeout_at.ok_or(EscrowError::TimeoutNotLater)?;
+        require!(new_timeout_at > old_timeout_at, EscrowError::TimeoutNotLater);
+        require!(new_timeout_at > clock.unix_timestamp, EscrowError::InvalidTimeout);
+
+        escrow.timeout_at = Some(new_timeout_at);
+
+        msg!("Timeout extended to {}", new_timeout_at);
+        emit!(TimeoutExtended {
+            escrow: escrow.key(),
+            extended_by: authority,
+            old_timeout_at,
+            new_timeout_at,
+        });
+
+        Ok(())
+    }
+
+    /// Raise a dispute, freezing the escrow until the arbiter rules
+    pub fn raise_dispute(ctx: Context<RaiseDispute>) -> Result<()> {
+        let escrow = &mut ctx.accounts.escrow;
+
+        require!(
+            escrow.state == EscrowState::Funded,
+            EscrowError::InvalidState
+        );
+
+        let authority = ctx.accounts.authority.key();
+        require!(
+            authority == escrow.buyer || authority == escrow.seller,
+            EscrowError::UnauthorizedDispute
+        );
+        require!(
+            escrow.arbiter.is_some() || !escrow.arbiter_panel.is_empty(),
+            EscrowError::ArbiterNotSet
+        );
+
+        // Release, cancel and the timeout all require `Funded`, so nothing
+        // can move the funds until the arbiter resolves the dispute
+        escrow.state = EscrowState::Disputed;
+        escrow.disputed_at = Some(Clock::get()?.unix_timestamp);
+        escrow.disputed_by = Some(authority);
+
+        msg!("Dispute raised by {}", authority);
+        emit!(DisputeRaised {
+            escrow: escrow.key(),
+            raised_by: authority,
+        });
+
+        Ok(())
+    }
+
+    /// Resolve a dispute by splitting the remaining funds between buyer and seller
+    pub fn resolve_dispute<'info>(
+        ctx: Context<'_, '_, 'info, 'info, ResolveDispute<'info>>,
+        buyer_share_bps: u16,
+    ) -> Result<()> {
+        let clock = Clock::get()?;
+
+        require!(
+            ctx.accounts.escrow.state == EscrowState::Disputed,
+            EscrowError::InvalidState
+        );
+
+        let authority = ctx.accounts.authority.key();
+        require!(
+            ctx.accounts.escrow.arbiter == Some(authority),
+            EscrowError::UnauthorizedResolve
+        );
+        require!(
+            buyer_share_bps <= MAX_BASIS_POINTS,
+            EscrowError::InvalidBasisPoints
+        );
+
+        // Store values we need before taking mutable borrow
+        let escrow_key = ctx.accounts.escrow.key();
+        let (buyer_amount, seller_amount, fee) =
+            apply_ruling(&ctx.accounts, ctx.remaining_accounts, buyer_share_bps)?;
+
+        // Now take mutable borrow to update state
+        let escrow = &mut ctx.accounts.escrow;
+        escrow.released_amount = escrow.deposited_amount;
+        escrow.state = EscrowState::Resolved;
+        escrow.resolved_at = Some(clock.unix_timestamp);
+
+        msg!("Dispute resolved: {} bps to buyer", buyer_share_bps);
+        emit!(DisputeResolved {
+            escrow: escrow_key,
+            resolved_by: authority,
+            buyer_share_bps,
+            buyer_amount,
+            seller_amount,
+            fee,
+        });
+
+        Ok(())
+    }
+
+    /// Choose the arbiter panel and how many of its members must agree on a ruling
+    pub fn set_arbiter_panel(
+        ctx: Context<SetArbiterPanel>,
+        arbiters: Vec<Pubkey>,
+        threshold: u8,
+    ) -> Result<()> {
+        let escrow = &mut ctx.accounts.escrow;
+
+        require!(
+            escrow.is_unfunded() || escrow.state == EscrowState::Funded,
+            EscrowError::InvalidState
+        );
+        require!(
+            ctx.accounts.authority.key() == escrow.buyer,
+            EscrowError::UnauthorizedArbiter
+        );
+
+        // An empty panel with a zero threshold removes the panel
+        let unique = arbiters
+            .iter()
+            .enumerate()
+            .all(|(index, arbiter)| !arbiters[..index].contains(arbiter));
+        require!(
+            arbiters.len() <= MAX_ARBITERS &&
+                unique &&
+                (threshold as usize) <= arbiters.len() &&
+                (threshold > 0 || arbiters.is_empty()),
+            EscrowError::InvalidArbiterPanel
+        );
+
+        escrow.arbiter_panel = arbiters.clone();
+        escrow.arbiter_threshold = threshold;
+
+        msg!("Arbiter panel set: {} of {}", threshold, arbiters.len());
+        emit!(ArbiterPanelSet {
+            escrow: escrow.key(),
+            arbiters,
+            threshold,
+        });
+
+        Ok(())
+    }
+
+    /// Vote on a dispute as a panel member. The ruling is applied as soon as
+    /// `arbiter_threshold` members agree on the same split.
+    pub fn cast_arbiter_vote<'info>(
+        ctx: Context<'_, '_, 'info, 'info, ResolveDispute<'info>>,
+        vote: DisputeVote,
+    ) -> Result<()> {
+        let clock = Clock::get()?;
+
+        require!(
+            ctx.accounts.escrow.state == EscrowState::Disputed,
+            EscrowError::InvalidState
+        );
+
+        let authority = ctx.accounts.authority.key();
+        require!(
+            ctx.accounts.escrow.arbiter_panel.contains(&authority),
+            EscrowError::UnauthorizedVote
+        );
+        let buyer_share_bps = vote.buyer_share_bps();
+        require!(
+            buyer_share_bps <= MAX_BASIS_POINTS,
+            EscrowError::InvalidBasisPoints
+        );
+
+        // A member voting again replaces their earlier vote
+        let escrow = &mut ctx.accounts.escrow;
+        escrow.arbiter_votes.retain(|v| v.arbiter != authority);
+        escrow.arbiter_votes.push(ArbiterVote {
+            arbiter: authority,
+            vote,
+            voted_at: clock.unix_timestamp,
+        });
+        let agreeing_votes = escrow
+            .arbiter_votes
+            .iter()
+            .filter(|v| v.vote.buyer_share_bps() == buyer_share_bps)
+            .count() as u8;
+        let threshold = escrow.arbiter_threshold;
+        let escrow_key = escrow.key();
+
+        msg!("Arbiter vote cast: {} of {} agree", agreeing_votes, threshold);
+        emit!(ArbiterVoteCast {
+            escrow: escrow_key,
+            arbiter: authority,
+            vote,
+            agreeing_votes,
+            threshold,
+        });
+
+        if agreeing_votes < threshold {
+            return Ok(());
+        }
+
+        let (buyer_amount, seller_amount, fee) =
+            apply_ruling(&ctx.accounts, ctx.remaining_accounts, buyer_share_bps)?;
+
+        let escrow = &mut ctx.accounts.escrow;
+        escrow.released_amount = escrow.deposited_amount;
+        escrow.state = EscrowState::Resolved;
+        escrow.resolved_at = Some(clock.unix_timestamp);
+
+        msg!("Dispute resolved by panel: {} bps to buyer", buyer_share_bps);
+        emit!(DisputeResolved {
+            escrow: escrow_key,
+            resolved_by: authority,
+            buyer_share_bps,
+            buyer_amount,
+            seller_amount,
+            fee,
+        });
+
+        Ok(())
+    }
+
+    /// Require the seller to accept the terms before the escrow can be funded
+    pub fn require_acceptance(ctx: Context<RequireAcceptance>) -> Result<()> {
+        let escrow = &mut ctx.accounts.escrow;
+
+        require!(
+            escrow.state == EscrowState::Initialized,
+            EscrowError::InvalidState
+        );
+        require!(
+            ctx.accounts.authority.key() == escrow.buyer,
+            EscrowError::UnauthorizedUpdate
+        );
+
+        escrow.requires_acceptance = true;
+        escrow.accepted_at = None;
+        escrow.state = EscrowState::AwaitingAcceptance;
+
+        msg!("Escrow awaiting seller acceptance");
+
+        Ok(())
+    }
+
+    /// Seller accepts the escrow terms, making the escrow fundable
+    pub fn accept_escrow(ctx: Context<RespondToEscrow>) -> Result<()> {
+        let escrow = &mut ctx.accounts.escrow;
+
+        require!(
+            escrow.state == EscrowState::AwaitingAcceptance,
+            EscrowError::InvalidState
+        );
+        require!(
+            ctx.accounts.seller.key() == escrow.seller,
+            EscrowError::UnauthorizedAcceptance
+        );
+
+        escrow.state = EscrowState::Initialized;
+        escrow.accepted_at = Some(Clock::get()?.unix_timestamp);
+
+        msg!("Escrow accepted by seller");
+        emit!(EscrowAccepted {
+            escrow: escrow.key(),
+            seller: escrow.seller,
+        });
+
+        Ok(())
+    }
+
+    /// Seller rejects the escrow terms, cancelling the escrow
+    pub fn reject_escrow(ctx: Context<RespondToEscrow>) -> Result<()> {
+        let escrow = &mut ctx.accounts.escrow;
+
+        require!(
+            escrow.state == EscrowState::AwaitingAcceptance,
+            EscrowError::InvalidState
+        );
+        require!(
+            ctx.accounts.seller.key() == escrow.seller,
+            EscrowError::UnauthorizedAcceptance
+        );
+
+        // Nothing has been deposited yet, so there is nothing to refund
+        escrow.state = EscrowState::Cancelled;
+        escrow.cancelled_at = Some(Clock::get()?.unix_timestamp);
+        escrow.cancelled_by = Some(escrow.seller);
+
+        msg!("Escrow rejected by seller");
+        emit!(EscrowRejected {
+            escrow: escrow.key(),
+            seller: escrow.seller,
+        });
+
+        Ok(())
+    }
+
+    /// Update escrow conditions (only before funding)
+    pub fn update_conditions(
+        ctx: Context<UpdateConditions>,
+        new_conditions: String,
+    ) -> Result<()> {
+        let escrow = &mut ctx.accounts.escrow;
+        
+        require!(escrow.is_unfunded(), EscrowError::InvalidState);
+        require!(
+            ctx.accounts.authority.key() == escrow.buyer,
+            EscrowError::UnauthorizedUpdate
+        );
+        require!(escrow.terms_hash.is_none(), EscrowError::TermsEscrow);
+        require!(new_conditions.len() <= MAX_CONDITIONS_LEN, EscrowError::ConditionsTooLong);
+
+        escrow.release_conditions = new_conditions.clone();
+        escrow.reset_acceptance();
+
+        msg!("Conditions updated");
+        emit!(ConditionsUpdated {
+            escrow: escrow.key(),
+            conditions: new_conditions,
+        });
+
+        Ok(())
+    }
+
+    /// Point a terms escrow at a new terms document (only before funding)
+    pub fn update_terms(
+        ctx: Context<UpdateConditions>,
+        terms_hash: [u8; 32],
+        terms_uri: String,
+    ) -> Result<()> {
+        let escrow = &mut ctx.accounts.escrow;
+
+        require!(escrow.is_unfunded(), EscrowError::InvalidState);
+        require!(
+            ctx.accounts.authority.key() == escrow.buyer,
+            EscrowError::UnauthorizedUpdate
+        );
+        require!(escrow.terms_hash.is_some(), EscrowError::NotTermsEscrow);
+        require!(terms_uri.len() <= MAX_TERMS_URI_LEN, EscrowError::TermsUriTooLong);
+
+        escrow.terms_hash = Some(terms_hash);
+        escrow.terms_uri = terms_uri;
+        escrow.reset_acceptance();
+
+        msg!("Terms updated");
+        emit!(TermsUpdated {
+            escrow: escrow.key(),
+            terms_hash,
+            terms_uri: escrow.terms_uri.clone(),
+        });
+
+        Ok(())
+    }
+
+    /// Amend the price, deadline or seller of an unfunded escrow
+    pub fn amend_escrow(
+        ctx: Context<AmendEscrow>,
+        new_amount: Option<u64>,
+        new_timeout_at: Option<i64>,
+        new_seller: Option<Pubkey>,
+    ) -> Result<()> {
+        let escrow = &mut ctx.accounts.escrow;
+        let clock = Clock::get()?;
+        
+        require!(escrow.is_unfunded(), EscrowError::InvalidState);
+        require!(
+            ctx.accounts.authority.key() == escrow.buyer,
+            EscrowError::UnauthorizedUpdate
+        );
+        // The seller deposited against these terms; changing them now
+        // would hand the counter asset to whoever the buyer names
+        require!(
+            escrow.counter_deposited_amount == 0,
+            EscrowError::CounterAssetDeposited
+        );
+
+        let old_amount = escrow.amount;
+        let old_timeout_at = escrow.timeout_at;
+        let old_seller = escrow.seller;
+
+        if let Some(amount) = new_amount {
+            require!(amount > 0, EscrowError::InvalidAmount);
+            // Milestones were split from the old amount and no longer add up
+            if amount != escrow.amount {
+                escrow.milestones.clear();
+            }
+            escrow.amount = amount;
+        }
+        if let Some(timeout_at) = new_timeout_at {
+            require!(timeout_at > clock.unix_timestamp, EscrowError::InvalidTimeout);
+            escrow.timeout_at = Some(timeout_at);
+        }
+        if let Some(seller) = new_seller {
+            escrow.seller = seller;
+        }
+        escrow.reset_acceptance();
+
+        msg!("Escrow amended");
+        emit!(EscrowAmended {
+            escrow: escrow.key(),
+            old_amount,
+            new_amount: escrow.amount,
+            old_timeout_at,
+            new_timeout_at: escrow.timeout_at,
+            old_seller,
+            new_seller: escrow.seller,
+        });
+
+        Ok(())
+    }
+
+    /// Unlock the escrow to the seller linearly between `start_ts` and
+    /// `end_ts`, with nothing vested before the optional cliff
+    pub fn set_vesting(
+        ctx: Context<SetVesting>,
+        start_ts: i64,
+        end_ts: i64,
+        cliff_ts: Option<i64>,
+    ) -> Result<()> {
+        let escrow = &mut ctx.accounts.escrow;
+
+        require!(escrow.is_unfunded(), EscrowError::InvalidState);
+        require!(
+            ctx.accounts.authority.key() == escrow.buyer,
+            EscrowError::UnauthorizedUpdate
+        );
+        require!(!escrow.is_swap(), EscrowError::SwapEscrow);
+        require!(escrow.milestones.is_empty(), EscrowError::VestingEscrow);
+        require!(escrow.hash_lock.is_none(), EscrowError::HashLocked);
+
+        let cliff_ts = cliff_ts.unwrap_or(start_ts);
+        require!(
+            start_ts < end_ts && cliff_ts >= start_ts && cliff_ts <= end_ts,
+            EscrowError::InvalidVestingSchedule
+        );
+
+        escrow.vesting = Some(VestingSchedule {
+            start_ts,
+            cliff_ts,
+            end_ts,
+        });
+        escrow.reset_acceptance();
+
+        msg!("Vesting set: {} to {}, cliff {}", start_ts, end_ts, cliff_ts);
+        emit!(VestingSet {
+            escrow: escrow.key(),
+            start_ts,
+            cliff_ts,
+            end_ts,
+        });
+
+        Ok(())
+    }
+
+    /// Pay the seller whatever has vested and not been withdrawn yet. After a
+    /// cancel, vesting stops at the cancellation time.
+    pub fn withdraw_vested<'info>(ctx: Context<'_, '_, 'info, 'info, Release<'info>>) -> Result<()> {
+        let clock = Clock::get()?;
+
+        require!(
+            ctx.accounts.escrow.vesting.is_some(),
+            EscrowError::NotVestingEscrow
+        );
+        require!(
+            ctx.accounts.escrow.state == EscrowState::Funded ||
+                ctx.accounts.escrow.state == EscrowState::Cancelled,
+            EscrowError::InvalidState
+        );
+        require!(
+            ctx.accounts.authority.key() == ctx.accounts.escrow.seller,
+            EscrowError::UnauthorizedRelease
+        );
+
+        // Store values before mutable borrow
+        let amount = ctx.accounts.escrow.withdrawable_vested(clock.unix_timestamp);
+        let escrow_key = ctx.accounts.escrow.key();
+        let seller = ctx.accounts.authority.key();
+
+        require!(amount > 0, EscrowError::NothingVested);
+
+        let fee = transfer_to_seller(
+            &ctx.accounts.escrow,
+            &ctx.accounts.vault,
+            &ctx.accounts.seller_token_account,
+            &ctx.accounts.treasury_token_account,
+            &ctx.accounts.config,
+            &ctx.accounts.mint,
+            &ctx.accounts.token_program,
+            ctx.remaining_accounts,
+            amount,
+        )?;
+
+        let escrow = &mut ctx.accounts.escrow;
+        escrow.released_amount += amount;
+
+        // Fully vested and withdrawn
+        if escrow.state == EscrowState::Funded && escrow.released_amount == escrow.deposited_amount {
+            escrow.state = EscrowState::Released;
+            escrow.released_at = Some(clock.unix_timestamp);
+            escrow.released_by = Some(seller);
+        }
+
+        msg!("Vested funds withdrawn: {}", amount);
+        emit!(VestedWithdrawn {
+            escrow: escrow_key,
+            seller,
+            amount,
+            fee,
+            total_withdrawn: escrow.released_amount,
+        });
+
+        Ok(())
+    }
+
+    /// Turn an unfunded escrow into a two-sided swap: the seller deposits
+    /// `counter_amount` of `counter_mint` into a second vault
+    pub fn enable_swap(ctx: Context<EnableSwap>, counter_amount: u64) -> Result<()> {
+        let escrow = &mut ctx.accounts.escrow;
+
+        require!(escrow.is_unfunded(), EscrowError::InvalidState);
+        require!(
+            ctx.accounts.buyer.key() == escrow.buyer,
+            EscrowError::UnauthorizedUpdate
+        );
+        require!(counter_amount > 0, EscrowError::InvalidAmount);
+        require!(
+            escrow.counter_deposited_amount == 0,
+            EscrowError::CounterAssetDeposited
+        );
+        // Milestones and timeout payouts can't hand the counter asset over
+        require!(escrow.milestones.is_empty(), EscrowError::SwapEscrow);
+        require!(escrow.vesting.is_none(), EscrowError::VestingEscrow);
+        require!(escrow.hash_lock.is_none(), EscrowError::HashLocked);
+
+        escrow.counter_mint = Some(ctx.accounts.counter_mint.key());
+        escrow.counter_amount = counter_amount;
+        escrow.counter_vault_bump = ctx.bumps.counter_vault;
+        escrow.reset_acceptance();
+
+        msg!("Swap enabled: {} of {}", counter_amount, ctx.accounts.counter_mint.key());
+        emit!(SwapEnabled {
+            escrow: escrow.key(),
+            counter_mint: ctx.accounts.counter_mint.key(),
+            counter_amount,
+        });
+
+        Ok(())
+    }
+
+    /// Seller deposits the counter asset of a swap
+    pub fn deposit_counter_asset(ctx: Context<DepositCounterAsset>) -> Result<()> {
+        require!(!ctx.accounts.config.paused, EscrowError::ProgramPaused);
+        require!(ctx.accounts.escrow.is_swap(), EscrowError::NotSwapEscrow);
+        require!(
+            ctx.accounts.escrow.state != EscrowState::AwaitingAcceptance,
+            EscrowError::AcceptancePending
+        );
+        require!(
+            (ctx.accounts.escrow.state == EscrowState::Initialized ||
+                ctx.accounts.escrow.state == EscrowState::Funded) &&
+                ctx.accounts.escrow.counter_deposited_amount == 0,
+            EscrowError::InvalidState
+        );
+        require!(
+            ctx.accounts.seller.key() == ctx.accounts.escrow.seller,
+            EscrowError::UnauthorizedDepositor
+        );
+
+        let amount = ctx.accounts.escrow.counter_amount;
+        let escrow_key = ctx.accounts.escrow.key();
+        let vault_balance_before = ctx.accounts.counter_vault.amount;
+
+        let transfer_ctx = CpiContext::new(
+            ctx.accounts.counter_token_program.to_account_info(),
+            TransferChecked {
+                from: ctx.accounts.seller_counter_token_account.to_account_info(),
+                mint: ctx.accounts.counter_mint.to_account_info(),
+                to: ctx.accounts.counter_vault.to_account_info(),
+                authority: ctx.accounts.seller.to_account_info(),
+            },
+        );
+        token_interface::transfer_checked(transfer_ctx, amount, ctx.accounts.counter_mint.decimals)?;
+
+        ctx.accounts.counter_vault.reload()?;
+        let received_amount = ctx.accounts.counter_vault.amount - vault_balance_before;
+
+        let escrow = &mut ctx.accounts.escrow;
+        escrow.counter_deposited_amount = received_amount;
+
+        msg!("Counter asset deposited: {}", received_amount);
+        emit!(CounterAssetDeposited {
+            escrow: escrow_key,
+            amount,
+            received_amount,
+        });
+
+        Ok(())
+    }
+
+    /// Swap both deposits once both sides are funded (anyone can call this)
+    pub fn settle_swap<'info>(ctx: Context<'_, '_, 'info, 'info, SettleSwap<'info>>) -> Result<()> {
+        let clock = Clock::get()?;
+
+        require!(ctx.accounts.escrow.is_swap(), EscrowError::NotSwapEscrow);
+        require!(
+            ctx.accounts.escrow.state == EscrowState::Funded,
+            EscrowError::InvalidState
+        );
+        require!(
+            ctx.accounts.escrow.counter_deposited_amount > 0,
+            EscrowError::CounterAssetMissing
+        );
+
+        // Store values before mutable borrow
+        let amount = ctx.accounts.escrow.remaining_amount();
+        let counter_amount = ctx.accounts.escrow.counter_deposited_amount;
+        let escrow_key = ctx.accounts.escrow.key();
+        let settled_by = ctx.accounts.authority.key();
+
+        let fee = transfer_to_seller(
+            &ctx.accounts.escrow,
+            &ctx.accounts.vault,
+            &ctx.accounts.seller_token_account,
+            &ctx.accounts.treasury_token_account,
+            &ctx.accounts.config,
+            &ctx.accounts.mint,
+            &ctx.accounts.token_program,
+            ctx.remaining_accounts,
+            amount,
+        )?;
+        transfer_from_vault(
+            &ctx.accounts.escrow,
+            &ctx.accounts.counter_vault,
+            &ctx.accounts.buyer_counter_token_account.to_account_info(),
+            &ctx.accounts.counter_mint,
+            &ctx.accounts.counter_token_program,
+            counter_amount,
+        )?;
+
+        let escrow = &mut ctx.accounts.escrow;
+        escrow.released_amount = escrow.deposited_amount;
+        escrow.counter_deposited_amount = 0;
+        escrow.state = EscrowState::Released;
+        escrow.released_at = Some(clock.unix_timestamp);
+        escrow.released_by = Some(settled_by);
+
+        msg!("Swap settled");
+        emit!(SwapSettled {
+            escrow: escrow_key,
+            settled_by,
+            amount,
+            counter_amount,
+            fee,
+        });
+
+        Ok(())
+    }
+
+    /// Seller takes the counter asset back when the buyer never funded or
+    /// the escrow ended without the swap
+    pub fn withdraw_counter_asset(ctx: Context<WithdrawCounterAsset>) -> Result<()> {
+        let escrow = &ctx.accounts.escrow;
+
+        require!(escrow.is_swap(), EscrowError::NotSwapEscrow);
+        require!(
+            escrow.is_unfunded() ||
+                escrow.state == EscrowState::Cancelled ||
+                escrow.state == EscrowState::Resolved,
+            EscrowError::InvalidState
+        );
+        require!(
+            ctx.accounts.seller.key() == escrow.seller,
+            EscrowError::UnauthorizedCancel
+        );
+        require!(
+            escrow.counter_deposited_amount > 0,
+            EscrowError::CounterAssetMissing
+        );
+
+        let amount = escrow.counter_deposited_amount;
+        let escrow_key = escrow.key();
+
+        transfer_from_vault(
+            &ctx.accounts.escrow,
+            &ctx.accounts.counter_vault,
+            &ctx.accounts.seller_counter_token_account.to_account_info(),
+            &ctx.accounts.counter_mint,
+            &ctx.accounts.counter_token_program,
+            amount,
+        )?;
+
+        let escrow = &mut ctx.accounts.escrow;
+        escrow.counter_deposited_amount = 0;
+
+        msg!("Counter asset withdrawn");
+        emit!(CounterAssetWithdrawn {
+            escrow: escrow_key,
+            amount,
+        });
+
+        Ok(())
+    }
+
+    /// Close escrow account and recover rent (only after completion)
+    pub fn close_escrow(ctx: Context<CloseEscrow>) -> Result<()> {
+        let escrow = &ctx.accounts.escrow;
+        
+        require!(
+            escrow.state == EscrowState::Released ||
+                escrow.state == EscrowState::Cancelled ||
+                escrow.state == EscrowState::Resolved,
+            EscrowError::InvalidState
+        );
+        require!(
+            ctx.accounts.authority.key() == escrow.buyer,
+            EscrowError::UnauthorizedClose
+        );
+        // The counter vault is owned by this escrow, so the seller's swap
+        // asset must be withdrawn first
+        require!(
+            escrow.counter_deposited_amount == 0,
+            EscrowError::InvalidState
+        );
+        // Same for funds that vested before a cancel
+        require!(
+            escrow.state != EscrowState::Cancelled ||
+                escrow.withdrawable_vested(Clock::get()?.unix_timestamp) == 0,
+            EscrowError::InvalidState
+        );
+
+        // Account will be closed automatically by Anchor
+        msg!("Escrow account closed");
+
+        Ok(())
+    }
+
+    /// Upgrade an escrow created before account versioning to the current
+    /// layout (anyone can call this; the payer covers the extra rent)
+    pub fn migrate_escrow(ctx: Context<MigrateEscrow>) -> Result<()> {
+        let info = ctx.accounts.escrow.to_account_info();
+
+        let legacy = {
+            let data = info.try_borrow_data()?;
+            require!(
+                data.len() >= 8 && data[..8] == LEGACY_ESCROW_DISCRIMINATOR,
+                EscrowError::AlreadyMigrated
+            );
+            LegacyEscrowAccount::deserialize(&mut &data[8..])
+                .map_err(|_| anchor_lang::error::ErrorCode::AccountDidNotDeserialize)?
+        };
+        let escrow = EscrowAccount::from(legacy);
+        let space = escrow.space();
+
+        // Top up rent for the larger account before growing it
+        let shortfall = Rent::get()?.minimum_balance(space).saturating_sub(info.lamports());
+        if shortfall > 0 {
+            system_program::transfer(
+                CpiContext::new(
+                    ctx.accounts.system_program.to_account_info(),
+                    system_program::Transfer {
+                        from: ctx.accounts.payer.to_account_info(),
+                        to: info.clone(),
+                    },
+                ),
+                shortfall,
+            )?;
+        }
+        info.realloc(space, false)?;
+        escrow.try_serialize(&mut &mut info.try_borrow_mut_data()?[..])?;
+
+        msg!("Escrow migrated to version {}", ESCROW_VERSION);
+        emit!(EscrowMigrated {
+            escrow: info.key(),
+            version: ESCROW_VERSION,
+        });
+
+        Ok(())
+    }
+
+    /// Create the program-wide configuration (only the upgrade authority)
+    pub fn initialize_config(
+        ctx: Context<InitializeConfig>,
+        fee_bps: u16,
+        treasury: Pubkey,
+    ) -> Result<()> {
+        require!(fee_bps <= MAX_FEE_BPS, EscrowError::FeeTooHigh);
+
+        let config = &mut ctx.accounts.config;
+        config.admin = ctx.accounts.admin.key();
+        config.fee_bps = fee_bps;
+        config.treasury = treasury;
+        config.bump = ctx.bumps.config;
+        config.paused = false;
+
+        msg!("Config initialized with {} bps fee", fee_bps);
+        emit!(ConfigUpdated {
+            admin: config.admin,
+            fee_bps,
+            treasury,
+        });
+
+        Ok(())
+    }
+
+    /// Update the fee, treasury or admin of the program configuration
+    pub fn update_config(
+        ctx: Context<UpdateConfig>,
+        fee_bps: Option<u16>,
+        treasury: Option<Pubkey>,
+        admin: Option<Pubkey>,
+    ) -> Result<()> {
+        let config = &mut ctx.accounts.config;
+
+        if let Some(fee_bps) = fee_bps {
+            require!(fee_bps <= MAX_FEE_BPS, EscrowError::FeeTooHigh);
+            config.fee_bps = fee_bps;
+        }
+        if let Some(treasury) = treasury {
+            config.treasury = treasury;
+        }
+        if let Some(admin) = admin {
+            config.admin = admin;
+        }
+
+        msg!("Config updated");
+        emit!(ConfigUpdated {
+            admin: config.admin,
+            fee_bps: config.fee_bps,
+            treasury: config.treasury,
+        });
+
+        Ok(())
+    }
+
+    /// Pause or resume new escrows and deposits (only the admin). Cancels,
+    /// releases and settlements keep working so funds are never locked
+    pub fn set_paused(ctx: Context<UpdateConfig>, paused: bool) -> Result<()> {
+        let config = &mut ctx.accounts.config;
+        config.paused = paused;
+
+        msg!("Program {}", if paused { "paused" } else { "unpaused" });
+        emit!(PauseChanged {
+            admin: config.admin,
+            paused,
+        });
+
+        Ok(())
+    }
+}
+
+/// Transfer tokens out of the vault, signed by the escrow PDA
+fn transfer_from_vault<'info>(
+    escrow: &Account<'info, EscrowAccount>,
+    vault: &InterfaceAccount<'info, TokenAccount>,
+    to: &AccountInfo<'info>,
+    mint: &InterfaceAccount<'info, Mint>,
+    token_program: &Interface<'info, TokenInterface>,
+    amount: u64,
+) -> Result<()> {
+    let escrow_seed = escrow.escrow_seed.to_le_bytes();
+    let bump = [escrow.bump];
+    let escrow_seeds: &[&[u8]] = &[b"escrow", escrow.buyer.as_ref(), &escrow_seed, &bump];
+    let signer_seeds = &[escrow_seeds];
+
+    let transfer_ctx = CpiContext::new_with_signer(
+        token_program.to_account_info(),
+        TransferChecked {
+            from: vault.to_account_info(),
+            mint: mint.to_account_info(),
+            to: to.to_account_info(),
+            authority: escrow.to_account_info(),
+        },
+        signer_seeds,
+    );
+    token_interface::transfer_checked(transfer_ctx, amount, mint.decimals)
+}
+
+/// Pay part of the escrowed asset: tokens out of the vault, or for native
+/// SOL escrows lamports off the escrow account straight to the wallet `to`
+fn pay_from_vault<'info>(
+    escrow: &Account<'info, EscrowAccount>,
+    vault: &InterfaceAccount<'info, TokenAccount>,
+    to: &AccountInfo<'info>,
+    mint: &InterfaceAccount<'info, Mint>,
+    token_program: &Interface<'info, TokenInterface>,
+    amount: u64,
+) -> Result<()> {
+    if !escrow.holds_lamports {
+        return transfer_from_vault(escrow, vault, to, mint, token_program, amount);
+    }
+
+    escrow.sub_lamports(amount)?;
+    to.add_lamports(amount)?;
+    Ok(())
+}
+
+/// Whether `account` can receive a payout for `owner`: their token account
+/// for `mint`, or their wallet itself when the escrow holds lamports
+fn is_payout_account(account: &AccountInfo, owner: &Pubkey, mint: &Pubkey, lamports: bool) -> bool {
+    if lamports {
+        return account.key() == *owner;
+    }
+    if TokenAccount::check_owner(account.owner).is_err() {
+        return false;
+    }
+    account.try_borrow_data().map_or(false, |data| {
+        TokenAccount::try_deserialize(&mut &data[..])
+            .map_or(false, |token_account| token_account.mint == *mint && token_account.owner == *owner)
+    })
+}
+
+/// Pay the seller out of the vault, sending the protocol fee to the treasury.
+/// Escrows with recipients split the payout by share instead, paying the
+/// recipients' token accounts (wallets for native SOL) passed as remaining
+/// accounts in recipient order. Returns the fee taken.
+fn transfer_to_seller<'info>(
+    escrow: &Account<'info, EscrowAccount>,
+    vault: &InterfaceAccount<'info, TokenAccount>,
+    seller_token_account: &AccountInfo<'info>,
+    treasury_token_account: &AccountInfo<'info>,
+    config: &Account<'info, Config>,
+    mint: &InterfaceAccount<'info, Mint>,
+    token_program: &Interface<'info, TokenInterface>,
+    recipient_accounts: &'info [AccountInfo<'info>],
+    amount: u64,
+) -> Result<u64> {
+    let fee = config.fee_for(amount);
+
+    if fee > 0 {
+        pay_from_vault(escrow, vault, treasury_token_account, mint, token_program, fee)?;
+    }
+    let payout = amount - fee;
+
+    if escrow.recipients.is_empty() {
+        pay_from_vault(escrow, vault, seller_token_account, mint, token_program, payout)?;
+        return Ok(fee);
+    }
+
+    require!(
+        recipient_accounts.len() >= escrow.recipients.len(),
+        EscrowError::InvalidRecipientAccount
+    );
+    let last = escrow.recipients.len() - 1;
+    let mut paid: u64 = 0;
+    for (index, recipient) in escrow.recipients.iter().enumerate() {
+        let account = &recipient_accounts[index];
+        require!(
+            is_payout_account(account, &recipient.wallet, &escrow.mint, escrow.holds_lamports),
+            EscrowError::InvalidRecipientAccount
+        );
+
+        // The last recipient takes the rounding remainder
+        let share = if index == last {
+            payout - paid
+        } else {
+            (payout as u128 * recipient.share_bps as u128 / MAX_BASIS_POINTS as u128) as u64
+        };
+        if share > 0 {
+            pay_from_vault(escrow, vault, account, mint, token_program, share)?;
+        }
+        paid += share;
+    }
+
+    Ok(fee)
+}
+
+/// Check that the instruction before the current one is an ed25519 verify
+/// of `message` signed by `attestor`. The precompile has already checked the
+/// signature itself, or the transaction would have failed.
+fn verify_attestation(instructions: &AccountInfo, attestor: &Pubkey, message: &[u8]) -> Result<()> {
+    let current_index = load_current_index_checked(instructions)? as usize;
+    require!(current_index > 0, EscrowError::InvalidAttestation);
+
+    let ix = load_instruction_at_checked(current_index - 1, instructions)?;
+    require!(
+        ix.program_id == ed25519_program::ID,
+        EscrowError::InvalidAttestation
+    );
+
+    // Header: signature count, padding, then one set of offsets
+    let data = &ix.data;
+    require!(data.len() >= 16 && data[0] == 1, EscrowError::InvalidAttestation);
+    let read_u16 = |at: usize| u16::from_le_bytes([data[at], data[at + 1]]);
+
+    // Key, signature and message must all live in the verify instruction itself
+    let signature_ix = read_u16(4);
+    let public_key_offset = read_u16(6) as usize;
+    let public_key_ix = read_u16(8);
+    let message_offset = read_u16(10) as usize;
+    let message_size = read_u16(12) as usize;
+    let message_ix = read_u16(14);
+    require!(
+        signature_ix == u16::MAX && public_key_ix == u16::MAX && message_ix == u16::MAX,
+        EscrowError::InvalidAttestation
+    );
+
+    require!(
+        data.get(public_key_offset..public_key_offset + 32) == Some(attestor.as_ref()),
+        EscrowError::InvalidAttestation
+    );
+    require!(
+        message_size == message.len() &&
+            data.get(message_offset..message_offset + message_size) == Some(message),
+        EscrowError::InvalidAttestation
+    );
+
+    Ok(())
+}
+
+/// Split what is left in the vault between buyer and seller side.
+/// Returns the buyer amount, seller amount and fee.
+fn apply_ruling<'info>(
+    accounts: &ResolveDispute<'info>,
+    recipient_accounts: &'info [AccountInfo<'info>],
+    buyer_share_bps: u16,
+) -> Result<(u64, u64, u64)> {
+    let remaining = accounts.escrow.remaining_amount();
+    let buyer_amount = (remaining as u128 * buyer_share_bps as u128 / MAX_BASIS_POINTS as u128) as u64;
+    let seller_amount = remaining - buyer_amount;
+
+    if buyer_amount > 0 {
+        pay_from_vault(
+            &accounts.escrow,
+            &accounts.vault,
+            &accounts.buyer_token_account,
+            &accounts.mint,
+            &accounts.token_program,
+            buyer_amount,
+        )?;
+    }
+    let fee = if seller_amount > 0 {
+        transfer_to_seller(
+            &accounts.escrow,
+            &accounts.vault,
+            &accounts.seller_token_account,
+            &accounts.treasury_token_account,
+            &accounts.config,
+            &accounts.mint,
+            &accounts.token_program,
+            recipient_accounts,
+            seller_amount,
+        )?
+    } else {
+        0
+    };
+
+    Ok((buyer_amount, seller_amount, fee))
+}
+
+// Account structures
+#[derive(Accounts)]
+#[instruction(amount: u64, escrow_seed: u64, seller: Pubkey)]
+pub struct InitializeEscrow<'info> {
+    #[account(
+        init,
+        payer = buyer,
+        space = EscrowAccount::SIZE,
+        seeds = [b"escrow", buyer.key().as_ref(), &escrow_seed.to_le_bytes()],
+        bump
+    )]
+    pub escrow: Account<'info, EscrowAccount>,
+    
+    #[account(
+        init,
+        payer = buyer,
+        token::mint = mint,
+        token::authority = escrow,
+        token::token_program = token_program,
+        seeds = [b"vault", buyer.key().as_ref(), &escrow_seed.to_le_bytes()],
+        bump
+    )]
+    pub vault: InterfaceAccount<'info, TokenAccount>,
+    
+    #[account(mut)]
+    pub buyer: Signer<'info>,
+    
+    pub mint: InterfaceAccount<'info, Mint>,
+    
+    #[account(seeds = [b"config"], bump = config.bump)]
+    pub config: Account<'info, Config>,
+    
+    pub token_program: Interface<'info, TokenInterface>,
+    pub system_program: Program<'info, System>,
+    pub rent: Sysvar<'info, Rent>,
+}
+
+#[derive(Accounts)]
+#[instruction(amount: u64, escrow_seed: u64, seller: Pubkey)]
+pub struct InitializeEscrowWithTerms<'info> {
+    #[account(
+        init,
+        payer = buyer,
+        space = EscrowAccount::TERMS_SIZE,
+        seeds = [b"escrow", buyer.key().as_ref(), &escrow_seed.to_le_bytes()],
+        bump
+    )]
+    pub escrow: Account<'info, EscrowAccount>,
+    
+    #[account(
+        init,
         payer = buyer,
         token::mint = mint,
         token::authority = escrow,
+        token::token_program = token_program,
         seeds = [b"vault", buyer.key().as_ref(), &escrow_seed.to_le_bytes()],
         bump
     )]
-    pub vault: Account<'info, TokenAccount>,
+    pub vault: InterfaceAccount<'info, TokenAccount>,
+    
+    #[account(mut)]
+    pub buyer: Signer<'info>,
+    
+    pub mint: InterfaceAccount<'info, Mint>,
+    
+    #[account(seeds = [b"config"], bump = config.bump)]
+    pub config: Account<'info, Config>,
+    
+    pub token_program: Interface<'info, TokenInterface>,
+    pub system_program: Program<'info, System>,
+    pub rent: Sysvar<'info, Rent>,
+}
+
+#[derive(Accounts)]
+pub struct Deposit<'info> {
+    #[account(
+        mut,
+        seeds = [b"escrow", escrow.buyer.as_ref(), &escrow.escrow_seed.to_le_bytes()],
+        bump = escrow.bump
+    )]
+    pub escrow: Account<'info, EscrowAccount>,
+    
+    #[account(
+        mut,
+        seeds = [b"vault", escrow.buyer.as_ref(), &escrow.escrow_seed.to_le_bytes()],
+        bump = escrow.vault_bump
+    )]
+    pub vault: InterfaceAccount<'info, TokenAccount>,
+    
+    #[account(mut)]
+    pub depositor: Signer<'info>,
+    
+    /// CHECK: the depositor's token account, or their wallet for native SOL, checked by is_payout_account
+    #[account(
+        mut,
+        constraint = is_payout_account(&depositor_token_account, &depositor.key(), &escrow.mint, escrow.mint == native_mint::ID)
+    )]
+    pub depositor_token_account: UncheckedAccount<'info>,
+    
+    #[account(address = escrow.mint)]
+    pub mint: InterfaceAccount<'info, Mint>,
+    
+    #[account(seeds = [b"config"], bump = config.bump)]
+    pub config: Account<'info, Config>,
+    
+    pub token_program: Interface<'info, TokenInterface>,
+    
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct Release<'info> {
+    #[account(
+        mut,
+        seeds = [b"escrow", escrow.buyer.as_ref(), &escrow.escrow_seed.to_le_bytes()],
+        bump = escrow.bump
+    )]
+    pub escrow: Account<'info, EscrowAccount>,
+    
+    #[account(
+        mut,
+        seeds = [b"vault", escrow.buyer.as_ref(), &escrow.escrow_seed.to_le_bytes()],
+        bump = escrow.vault_bump
+    )]
+    pub vault: InterfaceAccount<'info, TokenAccount>,
+    
+    pub authority: Signer<'info>,
+    
+    /// CHECK: the seller's token account, or their wallet for native SOL, checked by is_payout_account
+    #[account(
+        mut,
+        constraint = is_payout_account(&seller_token_account, &escrow.seller, &escrow.mint, escrow.holds_lamports)
+    )]
+    pub seller_token_account: UncheckedAccount<'info>,
+    
+    #[account(seeds = [b"config"], bump = config.bump)]
+    pub config: Account<'info, Config>,
+    
+    /// CHECK: the treasury's token account, or the treasury wallet for native SOL, checked by is_payout_account
+    #[account(
+        mut,
+        constraint = is_payout_account(&treasury_token_account, &config.treasury, &escrow.mint, escrow.holds_lamports)
+    )]
+    pub treasury_token_account: UncheckedAccount<'info>,
+    
+    #[account(address = escrow.mint)]
+    pub mint: InterfaceAccount<'info, Mint>,
+    
+    pub token_program: Interface<'info, TokenInterface>,
+}
+
+#[derive(Accounts)]
+pub struct ReleaseWithAttestation<'info> {
+    #[account(
+        mut,
+        seeds = [b"escrow", escrow.buyer.as_ref(), &escrow.escrow_seed.to_le_bytes()],
+        bump = escrow.bump
+    )]
+    pub escrow: Account<'info, EscrowAccount>,
+    
+    #[account(
+        mut,
+        seeds = [b"vault", escrow.buyer.as_ref(), &escrow.escrow_seed.to_le_bytes()],
+        bump = escrow.vault_bump
+    )]
+    pub vault: InterfaceAccount<'info, TokenAccount>,
+    
+    /// Anyone holding the attestation may submit it
+    pub authority: Signer<'info>,
+    
+    /// CHECK: the seller's token account, or their wallet for native SOL, checked by is_payout_account
+    #[account(
+        mut,
+        constraint = is_payout_account(&seller_token_account, &escrow.seller, &escrow.mint, escrow.holds_lamports)
+    )]
+    pub seller_token_account: UncheckedAccount<'info>,
+    
+    #[account(seeds = [b"config"], bump = config.bump)]
+    pub config: Account<'info, Config>,
+    
+    /// CHECK: the treasury's token account, or the treasury wallet for native SOL, checked by is_payout_account
+    #[account(
+        mut,
+        constraint = is_payout_account(&treasury_token_account, &config.treasury, &escrow.mint, escrow.holds_lamports)
+    )]
+    pub treasury_token_account: UncheckedAccount<'info>,
+    
+    #[account(address = escrow.mint)]
+    pub mint: InterfaceAccount<'info, Mint>,
+    
+    pub token_program: Interface<'info, TokenInterface>,
+    
+    /// CHECK: the instructions sysvar, checked by address
+    #[account(address = instructions_sysvar::ID)]
+    pub instructions: UncheckedAccount<'info>,
+}
+
+#[derive(Accounts)]
+pub struct Cancel<'info> {
+    #[account(
+        mut,
+        seeds = [b"escrow", escrow.buyer.as_ref(), &escrow.escrow_seed.to_le_bytes()],
+        bump = escrow.bump
+    )]
+    pub escrow: Account<'info, EscrowAccount>,
+    
+    #[account(
+        mut,
+        seeds = [b"vault", escrow.buyer.as_ref(), &escrow.escrow_seed.to_le_bytes()],
+        bump = escrow.vault_bump
+    )]
+    pub vault: InterfaceAccount<'info, TokenAccount>,
+    
+    pub authority: Signer<'info>,
+    
+    /// CHECK: the buyer's token account, or their wallet for native SOL, checked by is_payout_account
+    #[account(
+        mut,
+        constraint = is_payout_account(&buyer_token_account, &escrow.buyer, &escrow.mint, escrow.holds_lamports)
+    )]
+    pub buyer_token_account: UncheckedAccount<'info>,
+    
+    #[account(address = escrow.mint)]
+    pub mint: InterfaceAccount<'info, Mint>,
+    
+    pub token_program: Interface<'info, TokenInterface>,
+}
+
+#[derive(Accounts)]
+pub struct SetTimeoutPolicy<'info> {
+    #[account(
+        mut,
+        seeds = [b"escrow", escrow.buyer.as_ref(), &escrow.escrow_seed.to_le_bytes()],
+        bump = escrow.bump
+    )]
+    pub escrow: Account<'info, EscrowAccount>,
+    
+    pub authority: Signer<'info>,
+}
+
+#[derive(Accounts)]
+pub struct SettleExpired<'info> {
+    #[account(
+        mut,
+        seeds = [b"escrow", escrow.buyer.as_ref(), &escrow.escrow_seed.to_le_bytes()],
+        bump = escrow.bump
+    )]
+    pub escrow: Account<'info, EscrowAccount>,
+    
+    #[account(
+        mut,
+        seeds = [b"vault", escrow.buyer.as_ref(), &escrow.escrow_seed.to_le_bytes()],
+        bump = escrow.vault_bump
+    )]
+    pub vault: InterfaceAccount<'info, TokenAccount>,
+    
+    /// Anyone may settle an expired escrow
+    pub authority: Signer<'info>,
+    
+    /// CHECK: the buyer's token account, or their wallet for native SOL, checked by is_payout_account
+    #[account(
+        mut,
+        constraint = is_payout_account(&buyer_token_account, &escrow.buyer, &escrow.mint, escrow.holds_lamports)
+    )]
+    pub buyer_token_account: UncheckedAccount<'info>,
+    
+    /// CHECK: the seller's token account, or their wallet for native SOL, checked by is_payout_account
+    #[account(
+        mut,
+        constraint = is_payout_account(&seller_token_account, &escrow.seller, &escrow.mint, escrow.holds_lamports)
+    )]
+    pub seller_token_account: UncheckedAccount<'info>,
     
-    #[account(mut)]
-    pub buyer: Signer<'info>,
+    #[account(seeds = [b"config"], bump = config.bump)]
+    pub config: Account<'info, Config>,
     
-    pub mint: Account<'info, Mint>,
-    pub token_program: Program<'info, Token>,
-    pub system_program: Program<'info, System>,
-    pub rent: Sysvar<'info, Rent>,
+    /// CHECK: the treasury's token account, or the treasury wallet for native SOL, checked by is_payout_account
+    #[account(
+        mut,
+        constraint = is_payout_account(&treasury_token_account, &config.treasury, &escrow.mint, escrow.holds_lamports)
+    )]
+    pub treasury_token_account: UncheckedAccount<'info>,
+    
+    #[account(address = escrow.mint)]
+    pub mint: InterfaceAccount<'info, Mint>,
+    
+    pub token_program: Interface<'info, TokenInterface>,
 }
 
 #[derive(Accounts)]
-pub struct Deposit<'info> {
+pub struct SetArbiterPanel<'info> {
     #[account(
         mut,
         seeds = [b"escrow", escrow.buyer.as_ref(), &escrow.escrow_seed.to_le_bytes()],
@@ -320,28 +2243,38 @@ pub struct Deposit<'info> {
     )]
     pub escrow: Account<'info, EscrowAccount>,
     
+    pub authority: Signer<'info>,
+}
+
+#[derive(Accounts)]
+pub struct ExtendTimeout<'info> {
     #[account(
         mut,
-        seeds = [b"vault", escrow.buyer.as_ref(), &escrow.escrow_seed.to_le_bytes()],
-        bump = escrow.vault_bump
+        seeds = [b"escrow", escrow.buyer.as_ref(), &escrow.escrow_seed.to_le_bytes()],
+        bump = escrow.bump
     )]
-    pub vault: Account<'info, TokenAccount>,
+    pub escrow: Account<'info, EscrowAccount>,
     
-    #[account(mut)]
-    pub depositor: Signer<'info>,
+    pub authority: Signer<'info>,
     
+    /// The other party when buyer and seller extend together
+    pub co_signer: Option<Signer<'info>>,
+}
+
+#[derive(Accounts)]
+pub struct RaiseDispute<'info> {
     #[account(
         mut,
-        constraint = depositor_token_account.mint == escrow.mint,
-        constraint = depositor_token_account.owner == depositor.key()
+        seeds = [b"escrow", escrow.buyer.as_ref(), &escrow.escrow_seed.to_le_bytes()],
+        bump = escrow.bump
     )]
-    pub depositor_token_account: Account<'info, TokenAccount>,
+    pub escrow: Account<'info, EscrowAccount>,
     
-    pub token_program: Program<'info, Token>,
+    pub authority: Signer<'info>,
 }
 
 #[derive(Accounts)]
-pub struct Release<'info> {
+pub struct ResolveDispute<'info> {
     #[account(
         mut,
         seeds = [b"escrow", escrow.buyer.as_ref(), &escrow.escrow_seed.to_le_bytes()],
@@ -354,22 +2287,42 @@ pub struct Release<'info> {
         seeds = [b"vault", escrow.buyer.as_ref(), &escrow.escrow_seed.to_le_bytes()],
         bump = escrow.vault_bump
     )]
-    pub vault: Account<'info, TokenAccount>,
+    pub vault: InterfaceAccount<'info, TokenAccount>,
     
     pub authority: Signer<'info>,
     
+    /// CHECK: the buyer's token account, or their wallet for native SOL, checked by is_payout_account
+    #[account(
+        mut,
+        constraint = is_payout_account(&buyer_token_account, &escrow.buyer, &escrow.mint, escrow.holds_lamports)
+    )]
+    pub buyer_token_account: UncheckedAccount<'info>,
+    
+    /// CHECK: the seller's token account, or their wallet for native SOL, checked by is_payout_account
+    #[account(
+        mut,
+        constraint = is_payout_account(&seller_token_account, &escrow.seller, &escrow.mint, escrow.holds_lamports)
+    )]
+    pub seller_token_account: UncheckedAccount<'info>,
+    
+    #[account(seeds = [b"config"], bump = config.bump)]
+    pub config: Account<'info, Config>,
+    
+    /// CHECK: the treasury's token account, or the treasury wallet for native SOL, checked by is_payout_account
     #[account(
         mut,
-        constraint = seller_token_account.mint == escrow.mint,
-        constraint = seller_token_account.owner == escrow.seller
+        constraint = is_payout_account(&treasury_token_account, &config.treasury, &escrow.mint, escrow.holds_lamports)
     )]
-    pub seller_token_account: Account<'info, TokenAccount>,
+    pub treasury_token_account: UncheckedAccount<'info>,
+    
+    #[account(address = escrow.mint)]
+    pub mint: InterfaceAccount<'info, Mint>,
     
-    pub token_program: Program<'info, Token>,
+    pub token_program: Interface<'info, TokenInterface>,
 }
 
 #[derive(Accounts)]
-pub struct Cancel<'info> {
+pub struct SetArbiter<'info> {
     #[account(
         mut,
         seeds = [b"escrow", escrow.buyer.as_ref(), &escrow.escrow_seed.to_le_bytes()],
@@ -377,27 +2330,71 @@ pub struct Cancel<'info> {
     )]
     pub escrow: Account<'info, EscrowAccount>,
     
+    pub authority: Signer<'info>,
+}
+
+#[derive(Accounts)]
+pub struct RequireAcceptance<'info> {
     #[account(
         mut,
-        seeds = [b"vault", escrow.buyer.as_ref(), &escrow.escrow_seed.to_le_bytes()],
-        bump = escrow.vault_bump
+        seeds = [b"escrow", escrow.buyer.as_ref(), &escrow.escrow_seed.to_le_bytes()],
+        bump = escrow.bump
+    )]
+    pub escrow: Account<'info, EscrowAccount>,
+    
+    pub authority: Signer<'info>,
+}
+
+#[derive(Accounts)]
+pub struct RespondToEscrow<'info> {
+    #[account(
+        mut,
+        seeds = [b"escrow", escrow.buyer.as_ref(), &escrow.escrow_seed.to_le_bytes()],
+        bump = escrow.bump
+    )]
+    pub escrow: Account<'info, EscrowAccount>,
+    
+    pub seller: Signer<'info>,
+}
+
+#[derive(Accounts)]
+pub struct UpdateConditions<'info> {
+    #[account(
+        mut,
+        seeds = [b"escrow", escrow.buyer.as_ref(), &escrow.escrow_seed.to_le_bytes()],
+        bump = escrow.bump
     )]
-    pub vault: Account<'info, TokenAccount>,
+    pub escrow: Account<'info, EscrowAccount>,
     
     pub authority: Signer<'info>,
+}
+
+#[derive(Accounts)]
+pub struct AmendEscrow<'info> {
+    #[account(
+        mut,
+        seeds = [b"escrow", escrow.buyer.as_ref(), &escrow.escrow_seed.to_le_bytes()],
+        bump = escrow.bump
+    )]
+    pub escrow: Account<'info, EscrowAccount>,
     
+    pub authority: Signer<'info>,
+}
+
+#[derive(Accounts)]
+pub struct SetRecipients<'info> {
     #[account(
         mut,
-        constraint = buyer_token_account.mint == escrow.mint,
-        constraint = buyer_token_account.owner == escrow.buyer
+        seeds = [b"escrow", escrow.buyer.as_ref(), &escrow.escrow_seed.to_le_bytes()],
+        bump = escrow.bump
     )]
-    pub buyer_token_account: Account<'info, TokenAccount>,
+    pub escrow: Account<'info, EscrowAccount>,
     
-    pub token_program: Program<'info, Token>,
+    pub authority: Signer<'info>,
 }
 
 #[derive(Accounts)]
-pub struct SetArbiter<'info> {
+pub struct SetMilestones<'info> {
     #[account(
         mut,
         seeds = [b"escrow", escrow.buyer.as_ref(), &escrow.escrow_seed.to_le_bytes()],
@@ -409,7 +2406,118 @@ pub struct SetArbiter<'info> {
 }
 
 #[derive(Accounts)]
-pub struct UpdateConditions<'info> {
+pub struct SetHashLock<'info> {
+    #[account(
+        mut,
+        seeds = [b"escrow", escrow.buyer.as_ref(), &escrow.escrow_seed.to_le_bytes()],
+        bump = escrow.bump
+    )]
+    pub escrow: Account<'info, EscrowAccount>,
+    
+    pub authority: Signer<'info>,
+}
+
+#[derive(Accounts)]
+pub struct SetAttestation<'info> {
+    #[account(
+        mut,
+        seeds = [b"escrow", escrow.buyer.as_ref(), &escrow.escrow_seed.to_le_bytes()],
+        bump = escrow.bump
+    )]
+    pub escrow: Account<'info, EscrowAccount>,
+    
+    pub authority: Signer<'info>,
+}
+
+#[derive(Accounts)]
+pub struct SetDelegate<'info> {
+    #[account(
+        mut,
+        seeds = [b"escrow", escrow.buyer.as_ref(), &escrow.escrow_seed.to_le_bytes()],
+        bump = escrow.bump
+    )]
+    pub escrow: Account<'info, EscrowAccount>,
+    
+    /// The buyer, seller or arbiter the delegate acts for
+    pub authority: Signer<'info>,
+}
+
+#[derive(Accounts)]
+pub struct SetVesting<'info> {
+    #[account(
+        mut,
+        seeds = [b"escrow", escrow.buyer.as_ref(), &escrow.escrow_seed.to_le_bytes()],
+        bump = escrow.bump
+    )]
+    pub escrow: Account<'info, EscrowAccount>,
+    
+    pub authority: Signer<'info>,
+}
+
+#[derive(Accounts)]
+pub struct EnableSwap<'info> {
+    #[account(
+        mut,
+        seeds = [b"escrow", escrow.buyer.as_ref(), &escrow.escrow_seed.to_le_bytes()],
+        bump = escrow.bump
+    )]
+    pub escrow: Account<'info, EscrowAccount>,
+    
+    #[account(
+        init,
+        payer = buyer,
+        token::mint = counter_mint,
+        token::authority = escrow,
+        token::token_program = counter_token_program,
+        seeds = [b"counter_vault", escrow.buyer.as_ref(), &escrow.escrow_seed.to_le_bytes()],
+        bump
+    )]
+    pub counter_vault: InterfaceAccount<'info, TokenAccount>,
+    
+    #[account(mut)]
+    pub buyer: Signer<'info>,
+    
+    pub counter_mint: InterfaceAccount<'info, Mint>,
+    pub counter_token_program: Interface<'info, TokenInterface>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct DepositCounterAsset<'info> {
+    #[account(
+        mut,
+        seeds = [b"escrow", escrow.buyer.as_ref(), &escrow.escrow_seed.to_le_bytes()],
+        bump = escrow.bump
+    )]
+    pub escrow: Account<'info, EscrowAccount>,
+    
+    #[account(
+        mut,
+        seeds = [b"counter_vault", escrow.buyer.as_ref(), &escrow.escrow_seed.to_le_bytes()],
+        bump = escrow.counter_vault_bump
+    )]
+    pub counter_vault: InterfaceAccount<'info, TokenAccount>,
+    
+    pub seller: Signer<'info>,
+    
+    #[account(
+        mut,
+        constraint = Some(seller_counter_token_account.mint) == escrow.counter_mint,
+        constraint = seller_counter_token_account.owner == seller.key()
+    )]
+    pub seller_counter_token_account: InterfaceAccount<'info, TokenAccount>,
+    
+    #[account(constraint = Some(counter_mint.key()) == escrow.counter_mint)]
+    pub counter_mint: InterfaceAccount<'info, Mint>,
+    
+    #[account(seeds = [b"config"], bump = config.bump)]
+    pub config: Account<'info, Config>,
+    
+    pub counter_token_program: Interface<'info, TokenInterface>,
+}
+
+#[derive(Accounts)]
+pub struct SettleSwap<'info> {
     #[account(
         mut,
         seeds = [b"escrow", escrow.buyer.as_ref(), &escrow.escrow_seed.to_le_bytes()],
@@ -417,7 +2525,86 @@ pub struct UpdateConditions<'info> {
     )]
     pub escrow: Account<'info, EscrowAccount>,
     
+    #[account(
+        mut,
+        seeds = [b"vault", escrow.buyer.as_ref(), &escrow.escrow_seed.to_le_bytes()],
+        bump = escrow.vault_bump
+    )]
+    pub vault: InterfaceAccount<'info, TokenAccount>,
+    
+    #[account(
+        mut,
+        seeds = [b"counter_vault", escrow.buyer.as_ref(), &escrow.escrow_seed.to_le_bytes()],
+        bump = escrow.counter_vault_bump
+    )]
+    pub counter_vault: InterfaceAccount<'info, TokenAccount>,
+    
+    /// Anyone may settle a fully funded swap
     pub authority: Signer<'info>,
+    
+    /// CHECK: the seller's token account, or their wallet for native SOL, checked by is_payout_account
+    #[account(
+        mut,
+        constraint = is_payout_account(&seller_token_account, &escrow.seller, &escrow.mint, escrow.holds_lamports)
+    )]
+    pub seller_token_account: UncheckedAccount<'info>,
+    
+    #[account(
+        mut,
+        constraint = Some(buyer_counter_token_account.mint) == escrow.counter_mint,
+        constraint = buyer_counter_token_account.owner == escrow.buyer
+    )]
+    pub buyer_counter_token_account: InterfaceAccount<'info, TokenAccount>,
+    
+    #[account(seeds = [b"config"], bump = config.bump)]
+    pub config: Account<'info, Config>,
+    
+    /// CHECK: the treasury's token account, or the treasury wallet for native SOL, checked by is_payout_account
+    #[account(
+        mut,
+        constraint = is_payout_account(&treasury_token_account, &config.treasury, &escrow.mint, escrow.holds_lamports)
+    )]
+    pub treasury_token_account: UncheckedAccount<'info>,
+    
+    #[account(address = escrow.mint)]
+    pub mint: InterfaceAccount<'info, Mint>,
+    
+    #[account(constraint = Some(counter_mint.key()) == escrow.counter_mint)]
+    pub counter_mint: InterfaceAccount<'info, Mint>,
+    
+    pub token_program: Interface<'info, TokenInterface>,
+    pub counter_token_program: Interface<'info, TokenInterface>,
+}
+
+#[derive(Accounts)]
+pub struct WithdrawCounterAsset<'info> {
+    #[account(
+        mut,
+        seeds = [b"escrow", escrow.buyer.as_ref(), &escrow.escrow_seed.to_le_bytes()],
+        bump = escrow.bump
+    )]
+    pub escrow: Account<'info, EscrowAccount>,
+    
+    #[account(
+        mut,
+        seeds = [b"counter_vault", escrow.buyer.as_ref(), &escrow.escrow_seed.to_le_bytes()],
+        bump = escrow.counter_vault_bump
+    )]
+    pub counter_vault: InterfaceAccount<'info, TokenAccount>,
+    
+    pub seller: Signer<'info>,
+    
+    #[account(
+        mut,
+        constraint = Some(seller_counter_token_account.mint) == escrow.counter_mint,
+        constraint = seller_counter_token_account.owner == seller.key()
+    )]
+    pub seller_counter_token_account: InterfaceAccount<'info, TokenAccount>,
+    
+    #[account(constraint = Some(counter_mint.key()) == escrow.counter_mint)]
+    pub counter_mint: InterfaceAccount<'info, Mint>,
+    
+    pub counter_token_program: Interface<'info, TokenInterface>,
 }
 
 #[derive(Accounts)]
@@ -434,9 +2621,80 @@ pub struct CloseEscrow<'info> {
     pub authority: Signer<'info>,
 }
 
-// Data structures
-#[account]
+#[derive(Accounts)]
+pub struct MigrateEscrow<'info> {
+    /// CHECK: Still in the legacy layout, which `Account` can't load; the
+    /// discriminator is checked and the data parsed in the instruction
+    #[account(mut, owner = crate::ID)]
+    pub escrow: UncheckedAccount<'info>,
+    
+    #[account(mut)]
+    pub payer: Signer<'info>,
+    
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct InitializeConfig<'info> {
+    #[account(
+        init,
+        payer = admin,
+        space = Config::SIZE,
+        seeds = [b"config"],
+        bump
+    )]
+    pub config: Account<'info, Config>,
+    
+    #[account(mut)]
+    pub admin: Signer<'info>,
+    
+    #[account(constraint = program.programdata_address()? == Some(program_data.key()))]
+    pub program: Program<'info, crate::program::EscrowSystem>,
+    
+    #[account(
+        constraint = program_data.upgrade_authority_address == Some(admin.key()) @ EscrowError::UnauthorizedAdmin
+    )]
+    pub program_data: Account<'info, ProgramData>,
+    
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct UpdateConfig<'info> {
+    #[account(
+        mut,
+        seeds = [b"config"],
+        bump = config.bump,
+        has_one = admin @ EscrowError::UnauthorizedAdmin
+    )]
+    pub config: Account<'info, Config>,
+    
+    pub admin: Signer<'info>,
+}
+
+// Data structures
+pub const ESCROW_VERSION: u8 = 1;
+pub const RESERVED_SPACE: usize = 63;
+/// Discriminator of escrows created before account versioning
+pub const LEGACY_ESCROW_DISCRIMINATOR: [u8; 8] = [36, 69, 48, 18, 128, 225, 125, 135];
+pub const MAX_CONDITIONS_LEN: usize = 500;
+pub const MAX_TERMS_URI_LEN: usize = 128;
+pub const MAX_MILESTONES: usize = 10;
+pub const MAX_MILESTONE_DESCRIPTION_LEN: usize = 64;
+pub const MAX_RECIPIENTS: usize = 8;
+pub const MAX_ARBITERS: usize = 5;
+pub const MAX_PREIMAGE_LEN: usize = 64;
+pub const MAX_DELEGATES: usize = 3; // One each for buyer, seller and arbiter
+
+/// Actions a delegate may take, as bit flags
+pub const DELEGATE_RELEASE: u8 = 1 << 0;
+pub const DELEGATE_CANCEL: u8 = 1 << 1;
+pub const MAX_BASIS_POINTS: u16 = 10_000;
+pub const MAX_FEE_BPS: u16 = 1_000;
+
+#[account(discriminator = [67, 31, 25, 4, 171, 85, 52, 93])]
 pub struct EscrowAccount {
+    pub version: u8,                      // 1 byte, ESCROW_VERSION
     pub buyer: Pubkey,                    // 32 bytes
     pub seller: Pubkey,                   // 32 bytes
     pub mint: Pubkey,                     // 32 bytes
@@ -454,16 +2712,43 @@ pub struct EscrowAccount {
     pub arbiter: Option<Pubkey>,          // 1 + 32 bytes
     pub bump: u8,                         // 1 byte
     pub vault_bump: u8,                   // 1 byte
+    pub milestones: Vec<Milestone>,       // 4 + up to 10 milestones
+    pub released_amount: u64,             // 8 bytes
+    pub deposited_amount: u64,            // 8 bytes
+    pub disputed_at: Option<i64>,         // 1 + 8 bytes
+    pub disputed_by: Option<Pubkey>,      // 1 + 32 bytes
+    pub resolved_at: Option<i64>,         // 1 + 8 bytes
+    pub requires_acceptance: bool,        // 1 byte
+    pub accepted_at: Option<i64>,         // 1 + 8 bytes
+    pub timeout_policy: TimeoutPolicy,    // 1 byte
+    pub recipients: Vec<Recipient>,       // 4 + up to 8 recipients
+    pub arbiter_panel: Vec<Pubkey>,       // 4 + up to 5 * 32 bytes
+    pub arbiter_threshold: u8,            // 1 byte
+    pub arbiter_votes: Vec<ArbiterVote>,  // 4 + up to 5 votes
+    pub counter_mint: Option<Pubkey>,     // 1 + 32 bytes
+    pub counter_amount: u64,              // 8 bytes
+    pub counter_deposited_amount: u64,    // 8 bytes
+    pub counter_vault_bump: u8,           // 1 byte
+    pub vesting: Option<VestingSchedule>, // 1 + 24 bytes
+    pub delegates: Vec<Delegate>,         // 4 + up to 3 delegates
+    pub attestor: Option<Pubkey>,         // 1 + 32 bytes
+    pub condition_hash: [u8; 32],         // 32 bytes
+    pub hash_lock: Option<[u8; 32]>,      // 1 + 32 bytes, SHA-256 of the secret
+    pub terms_hash: Option<[u8; 32]>,     // 1 + 32 bytes, SHA-256 of the terms document
+    pub terms_uri: String,                // 4 + up to 128 bytes
+    pub holds_lamports: bool,             // 1 byte, native SOL kept on this account, not in the vault
+    pub reserved: [u8; RESERVED_SPACE],   // Room for new fields without a migration
 }
 
 impl EscrowAccount {
     pub const SIZE: usize = 8 +           // discriminator
+        1 +                               // version
         32 +                              // buyer
         32 +                              // seller
         32 +                              // mint
         8 +                               // amount
         8 +                               // escrow_seed
-        4 + 500 +                         // release_conditions
+        4 + MAX_CONDITIONS_LEN +          // release_conditions
         1 +                               // state
         8 +                               // created_at
         9 +                               // funded_at
@@ -474,7 +2759,361 @@ impl EscrowAccount {
         33 +                              // cancelled_by
         33 +                              // arbiter
         1 +                               // bump
-        1;                                // vault_bump
+        1 +                               // vault_bump
+        4 + MAX_MILESTONES * Milestone::SIZE + // milestones
+        8 +                               // released_amount
+        8 +                               // deposited_amount
+        9 +                               // disputed_at
+        33 +                              // disputed_by
+        9 +                               // resolved_at
+        1 +                               // requires_acceptance
+        9 +                               // accepted_at
+        1 +                               // timeout_policy
+        4 + MAX_RECIPIENTS * Recipient::SIZE + // recipients
+        4 + MAX_ARBITERS * 32 +           // arbiter_panel
+        1 +                               // arbiter_threshold
+        4 + MAX_ARBITERS * ArbiterVote::SIZE + // arbiter_votes
+        33 +                              // counter_mint
+        8 +                               // counter_amount
+        8 +                               // counter_deposited_amount
+        1 +                               // counter_vault_bump
+        1 + VestingSchedule::SIZE +       // vesting
+        4 + MAX_DELEGATES * Delegate::SIZE + // delegates
+        33 +                              // attestor
+        32 +                              // condition_hash
+        33 +                              // hash_lock
+        33 +                              // terms_hash
+        4 +                               // terms_uri (empty unless TERMS_SIZE)
+        1 +                               // holds_lamports
+        RESERVED_SPACE;                   // reserved
+
+    /// Terms escrows keep no inline conditions, only the hash and URI
+    pub const TERMS_SIZE: usize = Self::SIZE - MAX_CONDITIONS_LEN + MAX_TERMS_URI_LEN;
+
+    /// Space this escrow is allocated with
+    pub fn space(&self) -> usize {
+        if self.terms_hash.is_some() {
+            Self::TERMS_SIZE
+        } else {
+            Self::SIZE
+        }
+    }
+
+    /// Set every field of a freshly created escrow
+    #[allow(clippy::too_many_arguments)]
+    pub fn init(
+        &mut self,
+        buyer: Pubkey,
+        seller: Pubkey,
+        mint: Pubkey,
+        amount: u64,
+        escrow_seed: u64,
+        release_conditions: String,
+        created_at: i64,
+        timeout_at: Option<i64>,
+        bump: u8,
+        vault_bump: u8,
+    ) {
+        self.version = ESCROW_VERSION;
+        self.buyer = buyer;
+        self.seller = seller;
+        self.mint = mint;
+        self.amount = amount;
+        self.escrow_seed = escrow_seed;
+        self.release_conditions = release_conditions;
+        self.state = EscrowState::Initialized;
+        self.created_at = created_at;
+        self.timeout_at = timeout_at;
+        self.arbiter = None;
+        self.bump = bump;
+        self.vault_bump = vault_bump;
+        self.milestones = Vec::new();
+        self.deposited_amount = 0;
+        self.released_amount = 0;
+        self.disputed_at = None;
+        self.disputed_by = None;
+        self.resolved_at = None;
+        self.requires_acceptance = false;
+        self.accepted_at = None;
+        self.timeout_policy = TimeoutPolicy::ReleaseToSeller;
+        self.recipients = Vec::new();
+        self.arbiter_panel = Vec::new();
+        self.arbiter_threshold = 0;
+        self.arbiter_votes = Vec::new();
+        self.counter_mint = None;
+        self.counter_amount = 0;
+        self.counter_deposited_amount = 0;
+        self.counter_vault_bump = 0;
+        self.vesting = None;
+        self.delegates = Vec::new();
+        self.attestor = None;
+        self.condition_hash = [0; 32];
+        self.hash_lock = None;
+        self.terms_hash = None;
+        self.terms_uri = String::new();
+        self.holds_lamports = false;
+        self.reserved = [0; RESERVED_SPACE];
+    }
+
+    /// Tokens (or lamports) still held for this escrow
+    pub fn remaining_amount(&self) -> u64 {
+        self.deposited_amount.saturating_sub(self.released_amount)
+    }
+
+    /// Not yet funded, so the terms can still change
+    pub fn is_unfunded(&self) -> bool {
+        self.state == EscrowState::Initialized || self.state == EscrowState::AwaitingAcceptance
+    }
+
+    /// Changing the terms of an escrow the seller has to accept voids any earlier acceptance
+    pub fn reset_acceptance(&mut self) {
+        if self.requires_acceptance {
+            self.state = EscrowState::AwaitingAcceptance;
+            self.accepted_at = None;
+        }
+    }
+
+    /// Buyer, seller and arbiter may release at any time, anyone after timeout
+    /// unless the buyer asked for a refund on expiry
+    pub fn can_release(&self, authority: Pubkey, now: i64) -> bool {
+        authority == self.buyer ||
+            authority == self.seller ||
+            self.arbiter == Some(authority) ||
+            (self.timeout_policy == TimeoutPolicy::ReleaseToSeller && self.is_expired(now))
+    }
+
+    /// Amount vested to the seller at `now`, frozen at the cancellation time
+    pub fn vested_amount(&self, now: i64) -> u64 {
+        let vesting = match self.vesting {
+            Some(vesting) => vesting,
+            None => return 0,
+        };
+        let now = self.cancelled_at.map_or(now, |cancelled_at| now.min(cancelled_at));
+
+        if now < vesting.cliff_ts {
+            0
+        } else if now >= vesting.end_ts {
+            self.deposited_amount
+        } else {
+            let elapsed = (now - vesting.start_ts) as u128;
+            let duration = (vesting.end_ts - vesting.start_ts) as u128;
+            (self.deposited_amount as u128 * elapsed / duration) as u64
+        }
+    }
+
+    /// Vested funds the seller has not withdrawn yet
+    pub fn withdrawable_vested(&self, now: i64) -> u64 {
+        self.vested_amount(now).saturating_sub(self.released_amount)
+    }
+
+    /// The party a signer acts for: the party that registered it when it is
+    /// an unexpired delegate allowed to take `action`, otherwise the signer
+    pub fn acting_party(&self, signer: Pubkey, action: u8, now: i64) -> Pubkey {
+        self.delegates
+            .iter()
+            .find(|d| {
+                d.delegate == signer &&
+                    d.actions & action != 0 &&
+                    d.expires_at.map_or(true, |expires_at| now < expires_at)
+            })
+            .map_or(signer, |d| d.party)
+    }
+
+    /// Two-sided escrow where the seller deposits a counter asset
+    pub fn is_swap(&self) -> bool {
+        self.counter_mint.is_some()
+    }
+
+    /// The timeout has passed
+    pub fn is_expired(&self, now: i64) -> bool {
+        self.timeout_at.map_or(false, |timeout_at| now >= timeout_at)
+    }
+}
+
+/// Layout of escrows created before account versioning (version 0), i.e. by
+/// the original program, kept so `migrate_escrow` can read them
+#[derive(AnchorSerialize, AnchorDeserialize)]
+pub struct LegacyEscrowAccount {
+    pub buyer: Pubkey,
+    pub seller: Pubkey,
+    pub mint: Pubkey,
+    pub amount: u64,
+    pub escrow_seed: u64,
+    pub release_conditions: String,
+    pub state: EscrowState, // Only Initialized, Funded, Released or Cancelled
+    pub created_at: i64,
+    pub funded_at: Option<i64>,
+    pub timeout_at: Option<i64>,
+    pub released_at: Option<i64>,
+    pub cancelled_at: Option<i64>,
+    pub released_by: Option<Pubkey>,
+    pub cancelled_by: Option<Pubkey>,
+    pub arbiter: Option<Pubkey>,
+    pub bump: u8,
+    pub vault_bump: u8,
+}
+
+impl From<LegacyEscrowAccount> for EscrowAccount {
+    fn from(legacy: LegacyEscrowAccount) -> Self {
+        // The original program always deposited the full amount and paid it
+        // all out on release or cancel
+        let deposited_amount = if legacy.funded_at.is_some() { legacy.amount } else { 0 };
+        let released_amount = match legacy.state {
+            EscrowState::Released | EscrowState::Cancelled => deposited_amount,
+            _ => 0,
+        };
+
+        Self {
+            version: ESCROW_VERSION,
+            buyer: legacy.buyer,
+            seller: legacy.seller,
+            mint: legacy.mint,
+            amount: legacy.amount,
+            escrow_seed: legacy.escrow_seed,
+            release_conditions: legacy.release_conditions,
+            state: legacy.state,
+            created_at: legacy.created_at,
+            funded_at: legacy.funded_at,
+            timeout_at: legacy.timeout_at,
+            released_at: legacy.released_at,
+            cancelled_at: legacy.cancelled_at,
+            released_by: legacy.released_by,
+            cancelled_by: legacy.cancelled_by,
+            arbiter: legacy.arbiter,
+            bump: legacy.bump,
+            vault_bump: legacy.vault_bump,
+            milestones: Vec::new(),
+            released_amount,
+            deposited_amount,
+            disputed_at: None,
+            disputed_by: None,
+            resolved_at: None,
+            requires_acceptance: false,
+            accepted_at: None,
+            timeout_policy: TimeoutPolicy::ReleaseToSeller,
+            recipients: Vec::new(),
+            arbiter_panel: Vec::new(),
+            arbiter_threshold: 0,
+            arbiter_votes: Vec::new(),
+            counter_mint: None,
+            counter_amount: 0,
+            counter_deposited_amount: 0,
+            counter_vault_bump: 0,
+            vesting: None,
+            delegates: Vec::new(),
+            attestor: None,
+            condition_hash: [0; 32],
+            hash_lock: None,
+            terms_hash: None,
+            terms_uri: String::new(),
+            holds_lamports: false,
+            reserved: [0; RESERVED_SPACE],
+        }
+    }
+}
+
+#[account]
+pub struct Config {
+    pub admin: Pubkey,                    // 32 bytes
+    pub fee_bps: u16,                     // 2 bytes
+    pub treasury: Pubkey,                 // 32 bytes
+    pub bump: u8,                         // 1 byte
+    pub paused: bool,                     // 1 byte
+}
+
+impl Config {
+    pub const SIZE: usize = 8 +           // discriminator
+        32 +                              // admin
+        2 +                               // fee_bps
+        32 +                              // treasury
+        1 +                               // bump
+        1;                                // paused
+
+    /// Protocol fee owed on a payout to the seller
+    pub fn fee_for(&self, amount: u64) -> u64 {
+        (amount as u128 * self.fee_bps as u128 / MAX_BASIS_POINTS as u128) as u64
+    }
+}
+
+#[derive(AnchorSerialize, AnchorDeserialize, Clone, PartialEq, Eq)]
+pub struct Milestone {
+    pub amount: u64,                      // 8 bytes
+    pub description: String,              // 4 + up to 64 bytes
+    pub released: bool,                   // 1 byte
+    pub released_at: Option<i64>,         // 1 + 8 bytes
+}
+
+impl Milestone {
+    pub const SIZE: usize = 8 + 4 + MAX_MILESTONE_DESCRIPTION_LEN + 1 + 9;
+}
+
+#[derive(AnchorSerialize, AnchorDeserialize, Clone)]
+pub struct MilestoneInput {
+    pub amount: u64,
+    pub description: String,
+}
+
+#[derive(AnchorSerialize, AnchorDeserialize, Clone, Copy, PartialEq, Eq)]
+pub struct Recipient {
+    pub wallet: Pubkey,                   // 32 bytes
+    pub share_bps: u16,                   // 2 bytes
+}
+
+impl Recipient {
+    pub const SIZE: usize = 32 + 2;
+}
+
+#[derive(AnchorSerialize, AnchorDeserialize, Clone, Copy, PartialEq, Eq)]
+pub struct Delegate {
+    pub party: Pubkey,                    // 32 bytes, buyer, seller or arbiter
+    pub delegate: Pubkey,                 // 32 bytes
+    pub expires_at: Option<i64>,          // 1 + 8 bytes
+    pub actions: u8,                      // 1 byte, DELEGATE_* flags
+}
+
+impl Delegate {
+    pub const SIZE: usize = 32 + 32 + 9 + 1;
+}
+
+#[derive(AnchorSerialize, AnchorDeserialize, Clone, Copy, PartialEq, Eq)]
+pub struct VestingSchedule {
+    pub start_ts: i64,                    // 8 bytes
+    pub cliff_ts: i64,                    // 8 bytes, equals start_ts without a cliff
+    pub end_ts: i64,                      // 8 bytes
+}
+
+impl VestingSchedule {
+    pub const SIZE: usize = 8 + 8 + 8;
+}
+
+/// A panel member's ruling on a dispute
+#[derive(AnchorSerialize, AnchorDeserialize, Clone, Copy, PartialEq, Eq)]
+pub enum DisputeVote {
+    Release,
+    Refund,
+    Split { buyer_share_bps: u16 },
+}
+
+impl DisputeVote {
+    /// Votes agree when they send the same share back to the buyer
+    pub fn buyer_share_bps(&self) -> u16 {
+        match self {
+            DisputeVote::Release => 0,
+            DisputeVote::Refund => MAX_BASIS_POINTS,
+            DisputeVote::Split { buyer_share_bps } => *buyer_share_bps,
+        }
+    }
+}
+
+#[derive(AnchorSerialize, AnchorDeserialize, Clone, Copy, PartialEq, Eq)]
+pub struct ArbiterVote {
+    pub arbiter: Pubkey,                  // 32 bytes
+    pub vote: DisputeVote,                // 1 + 2 bytes
+    pub voted_at: i64,                    // 8 bytes
+}
+
+impl ArbiterVote {
+    pub const SIZE: usize = 32 + 3 + 8;
 }
 
 #[derive(AnchorSerialize, AnchorDeserialize, Clone, PartialEq, Eq, Copy)]
@@ -483,6 +3122,16 @@ pub enum EscrowState {
     Funded,
     Released,
     Cancelled,
+    Disputed,
+    Resolved,
+    AwaitingAcceptance,
+}
+
+/// What happens to the funds of an escrow that reaches its timeout
+#[derive(AnchorSerialize, AnchorDeserialize, Clone, PartialEq, Eq, Copy)]
+pub enum TimeoutPolicy {
+    ReleaseToSeller,
+    RefundToBuyer,
 }
 
 // Events
@@ -499,6 +3148,7 @@ pub struct EscrowCreated {
 pub struct EscrowFunded {
     pub escrow: Pubkey,
     pub amount: u64,
+    pub received_amount: u64,
 }
 
 #[event]
@@ -506,6 +3156,7 @@ pub struct EscrowReleased {
     pub escrow: Pubkey,
     pub released_by: Pubkey,
     pub amount: u64,
+    pub fee: u64,
 }
 
 #[event]
@@ -514,18 +3165,229 @@ pub struct EscrowCancelled {
     pub cancelled_by: Pubkey,
 }
 
+#[event]
+pub struct RecipientsSet {
+    pub escrow: Pubkey,
+    pub count: u8,
+}
+
+#[event]
+pub struct MilestonesSet {
+    pub escrow: Pubkey,
+    pub count: u8,
+    pub total_amount: u64,
+}
+
+#[event]
+pub struct MilestoneReleased {
+    pub escrow: Pubkey,
+    pub milestone_index: u8,
+    pub released_by: Pubkey,
+    pub amount: u64,
+    pub fee: u64,
+    pub remaining_amount: u64,
+}
+
+#[event]
+pub struct TimeoutExtended {
+    pub escrow: Pubkey,
+    pub extended_by: Pubkey,
+    pub old_timeout_at: i64,
+    pub new_timeout_at: i64,
+}
+
+#[event]
+pub struct DisputeRaised {
+    pub escrow: Pubkey,
+    pub raised_by: Pubkey,
+}
+
+#[event]
+pub struct ArbiterPanelSet {
+    pub escrow: Pubkey,
+    pub arbiters: Vec<Pubkey>,
+    pub threshold: u8,
+}
+
+#[event]
+pub struct ArbiterVoteCast {
+    pub escrow: Pubkey,
+    pub arbiter: Pubkey,
+    pub vote: DisputeVote,
+    pub agreeing_votes: u8,
+    pub threshold: u8,
+}
+
+#[event]
+pub struct DisputeResolved {
+    pub escrow: Pubkey,
+    pub resolved_by: Pubkey,
+    pub buyer_share_bps: u16,
+    pub buyer_amount: u64,
+    pub seller_amount: u64,
+    pub fee: u64,
+}
+
+#[event]
+pub struct ConfigUpdated {
+    pub admin: Pubkey,
+    pub fee_bps: u16,
+    pub treasury: Pubkey,
+}
+
+#[event]
+pub struct EscrowAccepted {
+    pub escrow: Pubkey,
+    pub seller: Pubkey,
+}
+
+#[event]
+pub struct EscrowRejected {
+    pub escrow: Pubkey,
+    pub seller: Pubkey,
+}
+
 #[event]
 pub struct ArbiterSet {
     pub escrow: Pubkey,
     pub arbiter: Pubkey,
 }
 
+#[event]
+pub struct TimeoutPolicySet {
+    pub escrow: Pubkey,
+    pub policy: TimeoutPolicy,
+}
+
+#[event]
+pub struct EscrowExpired {
+    pub escrow: Pubkey,
+    pub settled_by: Pubkey,
+    pub policy: TimeoutPolicy,
+    pub amount: u64,
+    pub fee: u64,
+}
+
+#[event]
+pub struct PauseChanged {
+    pub admin: Pubkey,
+    pub paused: bool,
+}
+
+#[event]
+pub struct EscrowMigrated {
+    pub escrow: Pubkey,
+    pub version: u8,
+}
+
+#[event]
+pub struct TermsUpdated {
+    pub escrow: Pubkey,
+    pub terms_hash: [u8; 32],
+    pub terms_uri: String,
+}
+
+#[event]
+pub struct HashLockSet {
+    pub escrow: Pubkey,
+    pub secret_hash: [u8; 32],
+}
+
+#[event]
+pub struct PreimageRevealed {
+    pub escrow: Pubkey,
+    pub claimed_by: Pubkey,
+    pub preimage: Vec<u8>,
+    pub amount: u64,
+    pub fee: u64,
+}
+
+#[event]
+pub struct AttestationSet {
+    pub escrow: Pubkey,
+    pub attestor: Pubkey,
+    pub condition_hash: [u8; 32],
+}
+
+#[event]
+pub struct DelegateSet {
+    pub escrow: Pubkey,
+    pub party: Pubkey,
+    pub delegate: Pubkey,
+    pub expires_at: Option<i64>,
+    pub actions: u8,
+}
+
+#[event]
+pub struct DelegateRevoked {
+    pub escrow: Pubkey,
+    pub party: Pubkey,
+    pub delegate: Pubkey,
+}
+
+#[event]
+pub struct VestingSet {
+    pub escrow: Pubkey,
+    pub start_ts: i64,
+    pub cliff_ts: i64,
+    pub end_ts: i64,
+}
+
+#[event]
+pub struct VestedWithdrawn {
+    pub escrow: Pubkey,
+    pub seller: Pubkey,
+    pub amount: u64,
+    pub fee: u64,
+    pub total_withdrawn: u64,
+}
+
+#[event]
+pub struct SwapEnabled {
+    pub escrow: Pubkey,
+    pub counter_mint: Pubkey,
+    pub counter_amount: u64,
+}
+
+#[event]
+pub struct CounterAssetDeposited {
+    pub escrow: Pubkey,
+    pub amount: u64,
+    pub received_amount: u64,
+}
+
+#[event]
+pub struct SwapSettled {
+    pub escrow: Pubkey,
+    pub settled_by: Pubkey,
+    pub amount: u64,
+    pub counter_amount: u64,
+    pub fee: u64,
+}
+
+#[event]
+pub struct CounterAssetWithdrawn {
+    pub escrow: Pubkey,
+    pub amount: u64,
+}
+
 #[event]
 pub struct ConditionsUpdated {
     pub escrow: Pubkey,
     pub conditions: String,
 }
 
+#[event]
+pub struct EscrowAmended {
+    pub escrow: Pubkey,
+    pub old_amount: u64,
+    pub new_amount: u64,
+    pub old_timeout_at: Option<i64>,
+    pub new_timeout_at: Option<i64>,
+    pub old_seller: Pubkey,
+    pub new_seller: Pubkey,
+}
+
 // Error codes
 #[error_code]
 pub enum EscrowError {
@@ -555,4 +3417,142 @@ pub enum EscrowError {
     
     #[msg("Unauthorized to close escrow")]
     UnauthorizedClose,
+    
+    #[msg("Too many milestones: maximum 10")]
+    TooManyMilestones,
+    
+    #[msg("Milestone description too long: maximum 64 characters")]
+    MilestoneDescriptionTooLong,
+    
+    #[msg("Milestone amounts must add up to the escrow amount")]
+    MilestoneAmountMismatch,
+    
+    #[msg("Invalid milestone index")]
+    InvalidMilestone,
+    
+    #[msg("Milestone already released")]
+    MilestoneAlreadyReleased,
+    
+    #[msg("Only the buyer or seller can raise a dispute")]
+    UnauthorizedDispute,
+    
+    #[msg("An arbiter must be set before raising a dispute")]
+    ArbiterNotSet,
+    
+    #[msg("Only the arbiter can resolve a dispute")]
+    UnauthorizedResolve,
+    
+    #[msg("Invalid basis points: maximum 10000")]
+    InvalidBasisPoints,
+    
+    #[msg("Only the seller can accept or reject the escrow")]
+    UnauthorizedAcceptance,
+    
+    #[msg("The seller has not accepted the escrow terms yet")]
+    AcceptancePending,
+    
+    #[msg("Only the program admin can change the configuration")]
+    UnauthorizedAdmin,
+    
+    #[msg("Fee too high: maximum 1000 basis points")]
+    FeeTooHigh,
+    
+    #[msg("Timeout must be in the future")]
+    InvalidTimeout,
+    
+    #[msg("Extending the timeout requires both buyer and seller, or the arbiter")]
+    UnauthorizedExtension,
+    
+    #[msg("The new timeout must be later than the current one")]
+    TimeoutNotLater,
+    
+    #[msg("The escrow has not timed out yet")]
+    NotExpired,
+    
+    #[msg("Too many recipients: maximum 8 allowed")]
+    TooManyRecipients,
+    
+    #[msg("Recipient shares must add up to 10000 basis points")]
+    RecipientSharesMismatch,
+    
+    #[msg("Recipient token accounts missing or not matching the recipients")]
+    InvalidRecipientAccount,
+    
+    #[msg("Arbiter panel needs at most 5 unique members and a threshold between 1 and the panel size")]
+    InvalidArbiterPanel,
+    
+    #[msg("Only a member of the arbiter panel can vote")]
+    UnauthorizedVote,
+    
+    #[msg("This escrow has no counter asset")]
+    NotSwapEscrow,
+    
+    #[msg("Swap escrows only settle through settle_swap")]
+    SwapEscrow,
+    
+    #[msg("The seller has not deposited the counter asset")]
+    CounterAssetMissing,
+    
+    #[msg("Both sides of the swap are funded; settle the swap instead")]
+    SwapReady,
+    
+    #[msg("Vesting schedule must start before it ends, with the cliff in between")]
+    InvalidVestingSchedule,
+    
+    #[msg("This escrow has no vesting schedule")]
+    NotVestingEscrow,
+    
+    #[msg("Vesting escrows pay out through withdraw_vested")]
+    VestingEscrow,
+    
+    #[msg("Nothing has vested since the last withdrawal")]
+    NothingVested,
+    
+    #[msg("Only the buyer, seller or arbiter can register a delegate")]
+    UnauthorizedDelegation,
+    
+    #[msg("Delegate needs known actions, a future expiry and a different key")]
+    InvalidDelegate,
+    
+    #[msg("No delegate registered for this party")]
+    DelegateNotFound,
+    
+    #[msg("This escrow has no attestor")]
+    AttestorNotSet,
+    
+    #[msg("Missing or invalid attestation signature")]
+    InvalidAttestation,
+    
+    #[msg("Hash-locked escrows release only through claim_with_preimage and refund only after the timeout")]
+    HashLocked,
+    
+    #[msg("A hash lock needs a timeout")]
+    HashLockNeedsTimeout,
+    
+    #[msg("This escrow is not hash-locked")]
+    NotHashLocked,
+    
+    #[msg("The hash lock has expired")]
+    HashLockExpired,
+    
+    #[msg("Preimage does not match the hash lock")]
+    InvalidPreimage,
+    
+    #[msg("Terms URI too long: maximum 128 characters")]
+    TermsUriTooLong,
+    
+    #[msg("This escrow uses a terms document; use update_terms")]
+    TermsEscrow,
+    
+    #[msg("This escrow has no terms document")]
+    NotTermsEscrow,
+    
+    #[msg("Escrow is already on the current account version")]
+    AlreadyMigrated,
+    
+    #[msg("The program is paused: no new escrows or deposits")]
+    ProgramPaused,
+    
+    #[msg("The seller has deposited the counter asset; the terms can no longer change")]
+    CounterAssetDeposited,
 }
@@ -2,14 +2,33 @@
 import * as anchor from "@coral-xyz/anchor";
 import { Program } from "@coral-xyz/anchor";
 import { EscrowSystem } from "../target/types/escrow_system";
+import {
+  ESCROW_VERSION,
+  EscrowClient,
+  EscrowProgramError,
+  TokenProgramError,
+  WalletSigner,
+  hashTermsDocument,
+  signAttestation,
+  createAttestationInstruction,
+} from "../client/escrow-client";
 import { 
   TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  NATIVE_MINT,
+  ExtensionType,
+  getMintLen,
+  createInitializeMintInstruction,
+  createInitializeTransferFeeConfigInstruction,
+  getAssociatedTokenAddress,
   createMint,
   createAccount,
   mintTo,
   getAccount,
 } from "@solana/spl-token";
 import { assert } from "chai";
+import legacyEscrowFixture from "./fixtures/legacy-escrow.json";
+import { createHash, randomBytes } from "crypto";
 
 describe("Escrow System", () => {
   const provider = anchor.AnchorProvider.env();
@@ -22,24 +41,32 @@ describe("Escrow System", () => {
   let buyerKeypair: anchor.web3.Keypair;
   let sellerKeypair: anchor.web3.Keypair;
   let arbiterKeypair: anchor.web3.Keypair;
+  let treasuryKeypair: anchor.web3.Keypair;
   
   // Token accounts
   let mint: anchor.web3.PublicKey;
   let buyerTokenAccount: anchor.web3.PublicKey;
   let sellerTokenAccount: anchor.web3.PublicKey;
+  let treasuryTokenAccount: anchor.web3.PublicKey;
   
   // Escrow accounts
   let escrowPda: anchor.web3.PublicKey;
   let vaultPda: anchor.web3.PublicKey;
   let escrowSeed: anchor.BN;
   
+  // Program configuration
+  let configPda: anchor.web3.PublicKey;
+  
   const ESCROW_AMOUNT = new anchor.BN(1000000); // 1 token (6 decimals)
+  const FEE_BPS = 100; // 1% protocol fee
+  const feeFor = (amount: anchor.BN) => amount.muln(FEE_BPS).divn(10000);
 
   before(async () => {
     // Initialize test wallets
     buyerKeypair = anchor.web3.Keypair.generate();
     sellerKeypair = anchor.web3.Keypair.generate();
     arbiterKeypair = anchor.web3.Keypair.generate();
+    treasuryKeypair = anchor.web3.Keypair.generate();
 
     // Airdrop SOL to wallets
     await provider.connection.requestAirdrop(buyerKeypair.publicKey, 2 * anchor.web3.LAMPORTS_PER_SOL);
@@ -73,6 +100,13 @@ describe("Escrow System", () => {
       sellerKeypair.publicKey
     );
 
+    treasuryTokenAccount = await createAccount(
+      provider.connection,
+      buyerKeypair,
+      mint,
+      treasuryKeypair.publicKey
+    );
+
     // Mint some tokens to buyer
     await mintTo(
       provider.connection,
@@ -80,8 +114,39 @@ describe("Escrow System", () => {
       mint,
       buyerTokenAccount,
       buyerKeypair,
-      10000000 // 10 tokens
+      100000000 // 100 tokens
+    );
+
+    // Create the program config, or point an existing one at this test's treasury
+    [configPda] = anchor.web3.PublicKey.findProgramAddressSync(
+      [Buffer.from("config")],
+      program.programId
     );
+    const existingConfig = await program.account.config.fetchNullable(configPda);
+    if (existingConfig) {
+      await program.methods
+        .updateConfig(FEE_BPS, treasuryKeypair.publicKey, null)
+        .accounts({
+          config: configPda,
+          admin: provider.wallet.publicKey,
+        })
+        .rpc();
+    } else {
+      const [programData] = anchor.web3.PublicKey.findProgramAddressSync(
+        [program.programId.toBuffer()],
+        new anchor.web3.PublicKey("BPFLoaderUpgradeab1e11111111111111111111111")
+      );
+
+      await program.methods
+        .initializeConfig(FEE_BPS, treasuryKeypair.publicKey)
+        .accounts({
+          config: configPda,
+          admin: provider.wallet.publicKey,
+          program: program.programId,
+          programData,
+        })
+        .rpc();
+    }
 
     // Generate escrow seed and PDAs
     escrowSeed = new anchor.BN(Date.now());
@@ -120,6 +185,7 @@ describe("Escrow System", () => {
           vault: vaultPda,
           buyer: buyerKeypair.publicKey,
           mint: mint,
+          tokenProgram: TOKEN_PROGRAM_ID,
         })
         .signers([buyerKeypair])
         .rpc();
@@ -169,6 +235,7 @@ describe("Escrow System", () => {
             vault: invalidVaultPda,
             buyer: buyerKeypair.publicKey,
             mint: mint,
+            tokenProgram: TOKEN_PROGRAM_ID,
           })
           .signers([buyerKeypair])
           .rpc();
@@ -189,6 +256,8 @@ describe("Escrow System", () => {
           vault: vaultPda,
           depositor: buyerKeypair.publicKey,
           depositorTokenAccount: buyerTokenAccount,
+          mint: mint,
+          tokenProgram: TOKEN_PROGRAM_ID,
         })
         .signers([buyerKeypair])
         .rpc();
@@ -245,6 +314,7 @@ describe("Escrow System", () => {
           vault: newVaultPda,
           buyer: buyerKeypair.publicKey,
           mint: mint,
+          tokenProgram: TOKEN_PROGRAM_ID,
         })
         .signers([buyerKeypair])
         .rpc();
@@ -258,6 +328,8 @@ describe("Escrow System", () => {
             vault: newVaultPda,
             depositor: sellerKeypair.publicKey,
             depositorTokenAccount: sellerTokenAccount,
+            mint: mint,
+            tokenProgram: TOKEN_PROGRAM_ID,
           })
           .signers([sellerKeypair])
           .rpc();
@@ -299,6 +371,10 @@ describe("Escrow System", () => {
           vault: vaultPda,
           authority: buyerKeypair.publicKey,
           sellerTokenAccount: sellerTokenAccount,
+          config: configPda,
+          treasuryTokenAccount: treasuryTokenAccount,
+          mint: mint,
+          tokenProgram: TOKEN_PROGRAM_ID,
         })
         .signers([buyerKeypair])
         .rpc();
@@ -311,11 +387,15 @@ describe("Escrow System", () => {
       assert.isNotNull(escrowAccount.releasedAt);
       assert.equal(escrowAccount.releasedBy.toString(), buyerKeypair.publicKey.toString());
 
-      // Verify seller received tokens
+      // Verify seller received tokens minus the protocol fee
       const sellerBalanceAfter = await getAccount(provider.connection, sellerTokenAccount);
-      const expectedBalance = sellerBalanceBefore.amount + BigInt(ESCROW_AMOUNT.toString());
+      const expectedBalance = sellerBalanceBefore.amount + BigInt(ESCROW_AMOUNT.sub(feeFor(ESCROW_AMOUNT)).toString());
       assert.equal(sellerBalanceAfter.amount.toString(), expectedBalance.toString());
 
+      // Verify treasury received the fee
+      const treasuryAccount = await getAccount(provider.connection, treasuryTokenAccount);
+      assert.equal(treasuryAccount.amount.toString(), feeFor(ESCROW_AMOUNT).toString());
+
       // Verify vault is empty
       const vaultAccount = await getAccount(provider.connection, vaultPda);
       assert.equal(vaultAccount.amount.toString(), "0");
@@ -355,6 +435,7 @@ describe("Escrow System", () => {
           vault: newVaultPda,
           buyer: buyerKeypair.publicKey,
           mint: mint,
+          tokenProgram: TOKEN_PROGRAM_ID,
         })
         .signers([buyerKeypair])
         .rpc();
@@ -366,6 +447,8 @@ describe("Escrow System", () => {
           vault: newVaultPda,
           depositor: buyerKeypair.publicKey,
           depositorTokenAccount: buyerTokenAccount,
+          mint: mint,
+          tokenProgram: TOKEN_PROGRAM_ID,
         })
         .signers([buyerKeypair])
         .rpc();
@@ -387,6 +470,10 @@ describe("Escrow System", () => {
           vault: newVaultPda,
           authority: arbiterKeypair.publicKey,
           sellerTokenAccount: sellerTokenAccount,
+          config: configPda,
+          treasuryTokenAccount: treasuryTokenAccount,
+          mint: mint,
+          tokenProgram: TOKEN_PROGRAM_ID,
         })
         .signers([arbiterKeypair])
         .rpc();
@@ -435,6 +522,7 @@ describe("Escrow System", () => {
           vault: cancelVaultPda,
           buyer: buyerKeypair.publicKey,
           mint: mint,
+          tokenProgram: TOKEN_PROGRAM_ID,
         })
         .signers([buyerKeypair])
         .rpc();
@@ -446,6 +534,8 @@ describe("Escrow System", () => {
           vault: cancelVaultPda,
           depositor: buyerKeypair.publicKey,
           depositorTokenAccount: buyerTokenAccount,
+          mint: mint,
+          tokenProgram: TOKEN_PROGRAM_ID,
         })
         .signers([buyerKeypair])
         .rpc();
@@ -460,6 +550,8 @@ describe("Escrow System", () => {
           vault: cancelVaultPda,
           authority: buyerKeypair.publicKey,
           buyerTokenAccount: buyerTokenAccount,
+          mint: mint,
+          tokenProgram: TOKEN_PROGRAM_ID,
         })
         .signers([buyerKeypair])
         .rpc();
@@ -514,6 +606,7 @@ describe("Escrow System", () => {
           vault: updateVaultPda,
           buyer: buyerKeypair.publicKey,
           mint: mint,
+          tokenProgram: TOKEN_PROGRAM_ID,
         })
         .signers([buyerKeypair])
         .rpc();
@@ -537,6 +630,189 @@ describe("Escrow System", () => {
     });
   });
 
+  describe("Terms Document", () => {
+    const TERMS = "Deliver 40 units per the attached specification, inspected on arrival";
+
+    it("Should store the terms hash and URI in a smaller account", async () => {
+      const client = new EscrowClient(program, provider);
+      const termsHash = await hashTermsDocument(TERMS);
+      assert.isTrue(termsHash.equals(createHash("sha256").update(TERMS).digest()));
+
+      const { escrow } = await client.initializeEscrow(buyerKeypair, {
+        amount: ESCROW_AMOUNT,
+        seller: sellerKeypair.publicKey,
+        mint,
+        releaseConditions: "",
+        terms: { hash: termsHash, uri: "https://example.com/terms/40-units.txt" },
+      });
+      const { escrow: inlineEscrow } = await client.initializeEscrow(buyerKeypair, {
+        amount: ESCROW_AMOUNT,
+        seller: sellerKeypair.publicKey,
+        mint,
+        releaseConditions: TERMS,
+      });
+
+      const info = await client.getEscrowInfo(escrow);
+      assert.isTrue(info.termsHash!.equals(termsHash));
+      assert.equal(info.termsUri, "https://example.com/terms/40-units.txt");
+      assert.equal(info.releaseConditions, "");
+
+      const termsAccount = await provider.connection.getAccountInfo(escrow);
+      const inlineAccount = await provider.connection.getAccountInfo(inlineEscrow);
+      assert.isBelow(termsAccount!.data.length, inlineAccount!.data.length);
+
+      assert.isTrue(await client.verifyTermsDocument(info, TERMS));
+      assert.isFalse(await client.verifyTermsDocument(info, TERMS + " "));
+    });
+
+    it("Should only update terms escrows through update_terms", async () => {
+      const client = new EscrowClient(program, provider);
+      const { escrow } = await client.initializeEscrow(buyerKeypair, {
+        amount: ESCROW_AMOUNT,
+        seller: sellerKeypair.publicKey,
+        mint,
+        releaseConditions: "",
+        terms: { hash: await hashTermsDocument(TERMS), uri: "https://example.com/terms/v1" },
+      });
+
+      try {
+        await client.updateConditions(buyerKeypair, escrow, "Inline conditions");
+        assert.fail("Should have failed");
+      } catch (error) {
+        assert.equal(error.code, "TermsEscrow");
+      }
+
+      const revised = TERMS.replace("40", "50");
+      await client.updateTerms(buyerKeypair, escrow, {
+        hash: await hashTermsDocument(revised),
+        uri: "https://example.com/terms/v2",
+      });
+
+      const info = await client.getEscrowInfo(escrow);
+      assert.equal(info.termsUri, "https://example.com/terms/v2");
+      assert.isTrue(await client.verifyTermsDocument(info, revised));
+
+      try {
+        await client.updateTerms(buyerKeypair, escrow, {
+          hash: await hashTermsDocument(revised),
+          uri: "https://example.com/" + "a".repeat(128),
+        });
+        assert.fail("Should have failed");
+      } catch (error) {
+        assert.equal(error.code, "TermsUriTooLong");
+      }
+    });
+  });
+
+  describe("Amend Escrow", () => {
+    const createAmendableEscrow = async (seed: anchor.BN) => {
+      const [escrow] = anchor.web3.PublicKey.findProgramAddressSync(
+        [
+          Buffer.from("escrow"),
+          buyerKeypair.publicKey.toBuffer(),
+          seed.toArrayLike(Buffer, "le", 8)
+        ],
+        program.programId
+      );
+      const [vault] = anchor.web3.PublicKey.findProgramAddressSync(
+        [
+          Buffer.from("vault"),
+          buyerKeypair.publicKey.toBuffer(),
+          seed.toArrayLike(Buffer, "le", 8)
+        ],
+        program.programId
+      );
+
+      await program.methods
+        .initializeEscrow(
+          ESCROW_AMOUNT,
+          seed,
+          sellerKeypair.publicKey,
+          "Terms still under negotiation",
+          new anchor.BN(3600)
+        )
+        .accounts({
+          escrow,
+          vault,
+          buyer: buyerKeypair.publicKey,
+          mint: mint,
+          tokenProgram: TOKEN_PROGRAM_ID,
+        })
+        .signers([buyerKeypair])
+        .rpc();
+
+      return { escrow, vault };
+    };
+
+    it("Should amend amount, timeout and seller before funding", async () => {
+      const { escrow } = await createAmendableEscrow(new anchor.BN(Date.now() + 450));
+      const newAmount = ESCROW_AMOUNT.muln(2);
+      const newTimeoutAt = new anchor.BN(Math.floor(Date.now() / 1000) + 7200);
+
+      const client = new EscrowClient(program, provider);
+      await client.amendEscrow(buyerKeypair, escrow, {
+        amount: newAmount,
+        timeoutAt: newTimeoutAt,
+        seller: arbiterKeypair.publicKey,
+      });
+
+      const escrowAccount = await program.account.escrowAccount.fetch(escrow);
+      assert.equal(escrowAccount.amount.toString(), newAmount.toString());
+      assert.equal(escrowAccount.timeoutAt.toString(), newTimeoutAt.toString());
+      assert.equal(escrowAccount.seller.toString(), arbiterKeypair.publicKey.toString());
+      assert.equal(escrowAccount.state.initialized !== undefined, true);
+    });
+
+    it("Should fail to amend after funding", async () => {
+      const { escrow, vault } = await createAmendableEscrow(new anchor.BN(Date.now() + 460));
+
+      await program.methods
+        .deposit()
+        .accounts({
+          escrow,
+          vault,
+          depositor: buyerKeypair.publicKey,
+          depositorTokenAccount: buyerTokenAccount,
+          mint: mint,
+          tokenProgram: TOKEN_PROGRAM_ID,
+        })
+        .signers([buyerKeypair])
+        .rpc();
+
+      try {
+        await program.methods
+          .amendEscrow(ESCROW_AMOUNT.muln(2), null, null)
+          .accounts({
+            escrow,
+            authority: buyerKeypair.publicKey,
+          })
+          .signers([buyerKeypair])
+          .rpc();
+        assert.fail("Should have failed");
+      } catch (error) {
+        assert.include(error.message, "InvalidState");
+      }
+    });
+
+    it("Should fail when the seller tries to amend", async () => {
+      const { escrow } = await createAmendableEscrow(new anchor.BN(Date.now() + 470));
+
+      try {
+        await program.methods
+          .amendEscrow(new anchor.BN(1), null, null)
+          .accounts({
+            escrow,
+            authority: sellerKeypair.publicKey,
+          })
+          .signers([sellerKeypair])
+          .rpc();
+        assert.fail("Should have failed");
+      } catch (error) {
+        assert.include(error.message, "UnauthorizedUpdate");
+      }
+    });
+  });
+
   describe("Timeout Release", () => {
     it("Should allow release after timeout", async () => {
       // Create escrow with short timeout
@@ -572,6 +848,7 @@ describe("Escrow System", () => {
           vault: timeoutVaultPda,
           buyer: buyerKeypair.publicKey,
           mint: mint,
+          tokenProgram: TOKEN_PROGRAM_ID,
         })
         .signers([buyerKeypair])
         .rpc();
@@ -584,6 +861,8 @@ describe("Escrow System", () => {
           vault: timeoutVaultPda,
           depositor: buyerKeypair.publicKey,
           depositorTokenAccount: buyerTokenAccount,
+          mint: mint,
+          tokenProgram: TOKEN_PROGRAM_ID,
         })
         .signers([buyerKeypair])
         .rpc();
@@ -599,6 +878,10 @@ describe("Escrow System", () => {
           vault: timeoutVaultPda,
           authority: sellerKeypair.publicKey, // Even seller can release after timeout
           sellerTokenAccount: sellerTokenAccount,
+          config: configPda,
+          treasuryTokenAccount: treasuryTokenAccount,
+          mint: mint,
+          tokenProgram: TOKEN_PROGRAM_ID,
         })
         .signers([sellerKeypair])
         .rpc();
@@ -609,6 +892,1825 @@ describe("Escrow System", () => {
       const escrowAccount = await program.account.escrowAccount.fetch(timeoutEscrowPda);
       assert.equal(escrowAccount.state.released !== undefined, true);
     });
+
+    it("Should refund the buyer when an expired escrow is settled", async () => {
+      const client = new EscrowClient(program, provider);
+      const { escrow } = await client.initializeEscrow(buyerKeypair, {
+        amount: ESCROW_AMOUNT,
+        seller: sellerKeypair.publicKey,
+        mint,
+        releaseConditions: "Refund if not delivered in time",
+        timeoutDuration: new anchor.BN(1),
+        timeoutPolicy: "refundToBuyer",
+      });
+      await client.deposit(buyerKeypair, escrow, mint);
+
+      await new Promise(resolve => setTimeout(resolve, 2000));
+
+      const info = await client.getEscrowInfo(escrow);
+      assert.equal(info.timeoutPolicy, "refundToBuyer");
+      assert.isTrue(client.isTimedOut(info));
+      assert.include(client.describeTimeout(info), "refund the buyer");
+
+      const buyerBalanceBefore = await getAccount(provider.connection, buyerTokenAccount);
+
+      // A third party settles, the funds go back to the buyer
+      await client.settleExpired(arbiterKeypair, escrow);
+
+      const buyerBalanceAfter = await getAccount(provider.connection, buyerTokenAccount);
+      assert.equal(
+        (buyerBalanceAfter.amount - buyerBalanceBefore.amount).toString(),
+        ESCROW_AMOUNT.toString()
+      );
+
+      const escrowAccount = await program.account.escrowAccount.fetch(escrow);
+      assert.equal(escrowAccount.state.cancelled !== undefined, true);
+    });
+
+    it("Should not let anyone release a refund-on-timeout escrow after the deadline", async () => {
+      const client = new EscrowClient(program, provider);
+      const { escrow } = await client.initializeEscrow(buyerKeypair, {
+        amount: ESCROW_AMOUNT,
+        seller: sellerKeypair.publicKey,
+        mint,
+        releaseConditions: "Refund if not delivered in time",
+        timeoutDuration: new anchor.BN(1),
+        timeoutPolicy: "refundToBuyer",
+      });
+      await client.deposit(buyerKeypair, escrow, mint);
+
+      await new Promise(resolve => setTimeout(resolve, 2000));
+
+      try {
+        await client.releaseFunds(arbiterKeypair, escrow);
+        assert.fail("Should have failed");
+      } catch (error) {
+        assert.equal(error.code, "UnauthorizedRelease");
+      }
+    });
+
+    it("Should fail to settle before the timeout", async () => {
+      const client = new EscrowClient(program, provider);
+      const { escrow } = await client.initializeEscrow(buyerKeypair, {
+        amount: ESCROW_AMOUNT,
+        seller: sellerKeypair.publicKey,
+        mint,
+        releaseConditions: "Plenty of time left",
+        timeoutDuration: new anchor.BN(3600),
+      });
+      await client.deposit(buyerKeypair, escrow, mint);
+
+      try {
+        await client.settleExpired(arbiterKeypair, escrow);
+        assert.fail("Should have failed");
+      } catch (error) {
+        assert.equal(error.code, "NotExpired");
+      }
+    });
+  });
+
+  describe("Extend Timeout", () => {
+    const createFundedEscrowWithTimeout = async () => {
+      const client = new EscrowClient(program, provider);
+      const { escrow } = await client.initializeEscrow(buyerKeypair, {
+        amount: ESCROW_AMOUNT,
+        seller: sellerKeypair.publicKey,
+        mint,
+        releaseConditions: "Deliver before the deadline",
+        timeoutDuration: new anchor.BN(3600),
+      });
+      await client.setArbiter(buyerKeypair, escrow, arbiterKeypair.publicKey);
+      await client.deposit(buyerKeypair, escrow, mint);
+
+      const escrowAccount = await program.account.escrowAccount.fetch(escrow);
+      return { client, escrow, timeoutAt: escrowAccount.timeoutAt as anchor.BN };
+    };
+
+    it("Should extend the timeout when buyer and seller both sign", async () => {
+      const { client, escrow, timeoutAt } = await createFundedEscrowWithTimeout();
+      const newTimeoutAt = timeoutAt.addn(86400);
+
+      // Buyer signs first and hands the transaction to the seller
+      const transaction = await client.buildExtendTimeoutTransaction(
+        escrow,
+        newTimeoutAt,
+        buyerKeypair.publicKey,
+        sellerKeypair.publicKey
+      );
+      transaction.partialSign(buyerKeypair);
+      const serialized = transaction.serialize({ requireAllSignatures: false });
+
+      await client.signAndSendPartialTransaction(serialized, sellerKeypair);
+
+      const escrowAccount = await program.account.escrowAccount.fetch(escrow);
+      assert.equal(escrowAccount.timeoutAt.toString(), newTimeoutAt.toString());
+    });
+
+    it("Should let the arbiter extend the timeout alone", async () => {
+      const { client, escrow, timeoutAt } = await createFundedEscrowWithTimeout();
+      const newTimeoutAt = timeoutAt.addn(3600);
+
+      await client.extendTimeout(arbiterKeypair, escrow, newTimeoutAt);
+
+      const escrowAccount = await program.account.escrowAccount.fetch(escrow);
+      assert.equal(escrowAccount.timeoutAt.toString(), newTimeoutAt.toString());
+    });
+
+    it("Should fail when only the buyer signs", async () => {
+      const { client, escrow, timeoutAt } = await createFundedEscrowWithTimeout();
+
+      try {
+        await client.extendTimeout(buyerKeypair, escrow, timeoutAt.addn(3600));
+        assert.fail("Should have failed");
+      } catch (error) {
+        assert.equal(error.code, "UnauthorizedExtension");
+      }
+    });
+
+    it("Should fail to move the timeout earlier", async () => {
+      const { client, escrow, timeoutAt } = await createFundedEscrowWithTimeout();
+
+      try {
+        await client.extendTimeout(arbiterKeypair, escrow, timeoutAt.subn(60));
+        assert.fail("Should have failed");
+      } catch (error) {
+        assert.equal(error.code, "TimeoutNotLater");
+      }
+    });
+  });
+
+  describe("Milestones", () => {
+    let milestoneEscrowPda: anchor.web3.PublicKey;
+    let milestoneVaultPda: anchor.web3.PublicKey;
+
+    before(async () => {
+      const milestoneEscrowSeed = new anchor.BN(Date.now() + 600);
+      [milestoneEscrowPda] = anchor.web3.PublicKey.findProgramAddressSync(
+        [
+          Buffer.from("escrow"),
+          buyerKeypair.publicKey.toBuffer(),
+          milestoneEscrowSeed.toArrayLike(Buffer, "le", 8)
+        ],
+        program.programId
+      );
+      [milestoneVaultPda] = anchor.web3.PublicKey.findProgramAddressSync(
+        [
+          Buffer.from("vault"),
+          buyerKeypair.publicKey.toBuffer(),
+          milestoneEscrowSeed.toArrayLike(Buffer, "le", 8)
+        ],
+        program.programId
+      );
+
+      await program.methods
+        .initializeEscrow(
+          ESCROW_AMOUNT,
+          milestoneEscrowSeed,
+          sellerKeypair.publicKey,
+          "Website build in two phases",
+          null
+        )
+        .accounts({
+          escrow: milestoneEscrowPda,
+          vault: milestoneVaultPda,
+          buyer: buyerKeypair.publicKey,
+          mint: mint,
+          tokenProgram: TOKEN_PROGRAM_ID,
+        })
+        .signers([buyerKeypair])
+        .rpc();
+    });
+
+    it("Should reject milestones that don't add up to the escrow amount", async () => {
+      try {
+        await program.methods
+          .setMilestones([
+            { amount: new anchor.BN(400000), description: "Design" },
+            { amount: new anchor.BN(400000), description: "Implementation" },
+          ])
+          .accounts({
+            escrow: milestoneEscrowPda,
+            authority: buyerKeypair.publicKey,
+          })
+          .signers([buyerKeypair])
+          .rpc();
+
+        assert.fail("Expected transaction to fail");
+      } catch (error) {
+        assert.include(error.message, "MilestoneAmountMismatch");
+      }
+    });
+
+    it("Should set milestones before funding", async () => {
+      await program.methods
+        .setMilestones([
+          { amount: new anchor.BN(400000), description: "Design" },
+          { amount: new anchor.BN(600000), description: "Implementation" },
+        ])
+        .accounts({
+          escrow: milestoneEscrowPda,
+          authority: buyerKeypair.publicKey,
+        })
+        .signers([buyerKeypair])
+        .rpc();
+
+      await program.methods
+        .deposit()
+        .accounts({
+          escrow: milestoneEscrowPda,
+          vault: milestoneVaultPda,
+          depositor: buyerKeypair.publicKey,
+          depositorTokenAccount: buyerTokenAccount,
+          mint: mint,
+          tokenProgram: TOKEN_PROGRAM_ID,
+        })
+        .signers([buyerKeypair])
+        .rpc();
+
+      const escrowAccount = await program.account.escrowAccount.fetch(milestoneEscrowPda);
+      assert.equal(escrowAccount.milestones.length, 2);
+      assert.equal(escrowAccount.milestones[0].description, "Design");
+      assert.equal(escrowAccount.state.funded !== undefined, true);
+    });
+
+    it("Should release milestones one at a time", async () => {
+      const sellerBalanceBefore = await getAccount(provider.connection, sellerTokenAccount);
+
+      await program.methods
+        .releaseMilestone(0)
+        .accounts({
+          escrow: milestoneEscrowPda,
+          vault: milestoneVaultPda,
+          authority: buyerKeypair.publicKey,
+          sellerTokenAccount: sellerTokenAccount,
+          config: configPda,
+          treasuryTokenAccount: treasuryTokenAccount,
+          mint: mint,
+          tokenProgram: TOKEN_PROGRAM_ID,
+        })
+        .signers([buyerKeypair])
+        .rpc();
+
+      let escrowAccount = await program.account.escrowAccount.fetch(milestoneEscrowPda);
+      assert.equal(escrowAccount.milestones[0].released, true);
+      assert.equal(escrowAccount.releasedAmount.toString(), "400000");
+      assert.equal(escrowAccount.state.funded !== undefined, true);
+
+      const vaultAccount = await getAccount(provider.connection, milestoneVaultPda);
+      assert.equal(vaultAccount.amount.toString(), "600000");
+
+      // Releasing the same milestone twice must fail
+      try {
+        await program.methods
+          .releaseMilestone(0)
+          .accounts({
+            escrow: milestoneEscrowPda,
+            vault: milestoneVaultPda,
+            authority: buyerKeypair.publicKey,
+            sellerTokenAccount: sellerTokenAccount,
+            config: configPda,
+            treasuryTokenAccount: treasuryTokenAccount,
+            mint: mint,
+            tokenProgram: TOKEN_PROGRAM_ID,
+          })
+          .signers([buyerKeypair])
+          .rpc();
+
+        assert.fail("Expected transaction to fail");
+      } catch (error) {
+        assert.include(error.message, "MilestoneAlreadyReleased");
+      }
+
+      await program.methods
+        .releaseMilestone(1)
+        .accounts({
+          escrow: milestoneEscrowPda,
+          vault: milestoneVaultPda,
+          authority: buyerKeypair.publicKey,
+          sellerTokenAccount: sellerTokenAccount,
+          config: configPda,
+          treasuryTokenAccount: treasuryTokenAccount,
+          mint: mint,
+          tokenProgram: TOKEN_PROGRAM_ID,
+        })
+        .signers([buyerKeypair])
+        .rpc();
+
+      escrowAccount = await program.account.escrowAccount.fetch(milestoneEscrowPda);
+      assert.equal(escrowAccount.state.released !== undefined, true);
+      assert.equal(escrowAccount.releasedAmount.toString(), ESCROW_AMOUNT.toString());
+
+      const sellerBalanceAfter = await getAccount(provider.connection, sellerTokenAccount);
+      const expectedBalance = sellerBalanceBefore.amount + BigInt(ESCROW_AMOUNT.sub(feeFor(ESCROW_AMOUNT)).toString());
+      assert.equal(sellerBalanceAfter.amount.toString(), expectedBalance.toString());
+    });
+  });
+
+  describe("Multiple Recipients", () => {
+    it("Should split the release between recipients by share", async () => {
+      const client = new EscrowClient(program, provider);
+      const subcontractorKeypair = anchor.web3.Keypair.generate();
+      const subcontractorTokenAccount = await createAccount(
+        provider.connection,
+        buyerKeypair,
+        mint,
+        subcontractorKeypair.publicKey
+      );
+
+      const { escrow } = await client.initializeEscrow(buyerKeypair, {
+        amount: ESCROW_AMOUNT,
+        seller: sellerKeypair.publicKey,
+        mint,
+        releaseConditions: "Agency deal",
+        recipients: [
+          { wallet: sellerKeypair.publicKey, shareBps: 7000 },
+          { wallet: subcontractorKeypair.publicKey, shareBps: 3000 },
+        ],
+      });
+      await client.deposit(buyerKeypair, escrow, mint);
+
+      // Subcontractors find the escrow through the seller lookup
+      const subcontractorEscrows = await client.getEscrowsForSeller(subcontractorKeypair.publicKey);
+      assert.isTrue(subcontractorEscrows.some(info => info.escrow.equals(escrow)));
+
+      const sellerBefore = await getAccount(provider.connection, sellerTokenAccount);
+      await client.releaseFunds(buyerKeypair, escrow);
+
+      const payout = ESCROW_AMOUNT.sub(feeFor(ESCROW_AMOUNT));
+      const sellerShare = payout.muln(7000).divn(10000);
+      const sellerAfter = await getAccount(provider.connection, sellerTokenAccount);
+      assert.equal(
+        (sellerAfter.amount - sellerBefore.amount).toString(),
+        sellerShare.toString()
+      );
+
+      const subcontractorAfter = await getAccount(provider.connection, subcontractorTokenAccount);
+      assert.equal(subcontractorAfter.amount.toString(), payout.sub(sellerShare).toString());
+    });
+
+    it("Should fail when shares don't add up to 10000", async () => {
+      const client = new EscrowClient(program, provider);
+
+      try {
+        await client.initializeEscrow(buyerKeypair, {
+          amount: ESCROW_AMOUNT,
+          seller: sellerKeypair.publicKey,
+          mint,
+          releaseConditions: "Bad split",
+          recipients: [
+            { wallet: sellerKeypair.publicKey, shareBps: 6000 },
+            { wallet: arbiterKeypair.publicKey, shareBps: 3000 },
+          ],
+        });
+        assert.fail("Should have failed");
+      } catch (error) {
+        assert.equal(error.code, "RecipientSharesMismatch");
+      }
+    });
+  });
+
+  describe("Disputes", () => {
+    let disputeEscrowPda: anchor.web3.PublicKey;
+    let disputeVaultPda: anchor.web3.PublicKey;
+
+    before(async () => {
+      const disputeEscrowSeed = new anchor.BN(Date.now() + 700);
+      [disputeEscrowPda] = anchor.web3.PublicKey.findProgramAddressSync(
+        [
+          Buffer.from("escrow"),
+          buyerKeypair.publicKey.toBuffer(),
+          disputeEscrowSeed.toArrayLike(Buffer, "le", 8)
+        ],
+        program.programId
+      );
+      [disputeVaultPda] = anchor.web3.PublicKey.findProgramAddressSync(
+        [
+          Buffer.from("vault"),
+          buyerKeypair.publicKey.toBuffer(),
+          disputeEscrowSeed.toArrayLike(Buffer, "le", 8)
+        ],
+        program.programId
+      );
+
+      // Initialize with a short timeout, deposit and set arbiter
+      await program.methods
+        .initializeEscrow(
+          ESCROW_AMOUNT,
+          disputeEscrowSeed,
+          sellerKeypair.publicKey,
+          "Dispute test",
+          new anchor.BN(1)
+        )
+        .accounts({
+          escrow: disputeEscrowPda,
+          vault: disputeVaultPda,
+          buyer: buyerKeypair.publicKey,
+          mint: mint,
+          tokenProgram: TOKEN_PROGRAM_ID,
+        })
+        .signers([buyerKeypair])
+        .rpc();
+
+      await program.methods
+        .deposit()
+        .accounts({
+          escrow: disputeEscrowPda,
+          vault: disputeVaultPda,
+          depositor: buyerKeypair.publicKey,
+          depositorTokenAccount: buyerTokenAccount,
+          mint: mint,
+          tokenProgram: TOKEN_PROGRAM_ID,
+        })
+        .signers([buyerKeypair])
+        .rpc();
+
+      await program.methods
+        .setArbiter(arbiterKeypair.publicKey)
+        .accounts({
+          escrow: disputeEscrowPda,
+          authority: buyerKeypair.publicKey,
+        })
+        .signers([buyerKeypair])
+        .rpc();
+    });
+
+    it("Should raise a dispute and freeze the timeout", async () => {
+      await program.methods
+        .raiseDispute()
+        .accounts({
+          escrow: disputeEscrowPda,
+          authority: buyerKeypair.publicKey,
+        })
+        .signers([buyerKeypair])
+        .rpc();
+
+      const escrowAccount = await program.account.escrowAccount.fetch(disputeEscrowPda);
+      assert.equal(escrowAccount.state.disputed !== undefined, true);
+      assert.equal(escrowAccount.disputedBy.toString(), buyerKeypair.publicKey.toString());
+
+      // Wait past the timeout; release must still be refused
+      await new Promise(resolve => setTimeout(resolve, 2000));
+
+      try {
+        await program.methods
+          .release()
+          .accounts({
+            escrow: disputeEscrowPda,
+            vault: disputeVaultPda,
+            authority: sellerKeypair.publicKey,
+            sellerTokenAccount: sellerTokenAccount,
+            config: configPda,
+            treasuryTokenAccount: treasuryTokenAccount,
+            mint: mint,
+            tokenProgram: TOKEN_PROGRAM_ID,
+          })
+          .signers([sellerKeypair])
+          .rpc();
+
+        assert.fail("Expected transaction to fail");
+      } catch (error) {
+        assert.include(error.message, "InvalidState");
+      }
+    });
+
+    it("Should only let the arbiter resolve the dispute", async () => {
+      try {
+        await program.methods
+          .resolveDispute(0)
+          .accounts({
+            escrow: disputeEscrowPda,
+            vault: disputeVaultPda,
+            authority: buyerKeypair.publicKey,
+            buyerTokenAccount: buyerTokenAccount,
+            sellerTokenAccount: sellerTokenAccount,
+            config: configPda,
+            treasuryTokenAccount: treasuryTokenAccount,
+            mint: mint,
+            tokenProgram: TOKEN_PROGRAM_ID,
+          })
+          .signers([buyerKeypair])
+          .rpc();
+
+        assert.fail("Expected transaction to fail");
+      } catch (error) {
+        assert.include(error.message, "UnauthorizedResolve");
+      }
+    });
+
+    it("Should split funds according to the arbiter ruling", async () => {
+      const buyerBalanceBefore = await getAccount(provider.connection, buyerTokenAccount);
+      const sellerBalanceBefore = await getAccount(provider.connection, sellerTokenAccount);
+
+      await program.methods
+        .resolveDispute(3000) // 30% back to the buyer
+        .accounts({
+          escrow: disputeEscrowPda,
+          vault: disputeVaultPda,
+          authority: arbiterKeypair.publicKey,
+          buyerTokenAccount: buyerTokenAccount,
+          sellerTokenAccount: sellerTokenAccount,
+          config: configPda,
+          treasuryTokenAccount: treasuryTokenAccount,
+          mint: mint,
+          tokenProgram: TOKEN_PROGRAM_ID,
+        })
+        .signers([arbiterKeypair])
+        .rpc();
+
+      const escrowAccount = await program.account.escrowAccount.fetch(disputeEscrowPda);
+      assert.equal(escrowAccount.state.resolved !== undefined, true);
+      assert.isNotNull(escrowAccount.resolvedAt);
+
+      const buyerBalanceAfter = await getAccount(provider.connection, buyerTokenAccount);
+      const sellerBalanceAfter = await getAccount(provider.connection, sellerTokenAccount);
+      assert.equal((buyerBalanceAfter.amount - buyerBalanceBefore.amount).toString(), "300000");
+      assert.equal((sellerBalanceAfter.amount - sellerBalanceBefore.amount).toString(), "693000"); // minus 1% fee
+    });
+  });
+
+  describe("Arbiter Panel", () => {
+    it("Should resolve a dispute once the panel threshold agrees", async () => {
+      const client = new EscrowClient(program, provider);
+      const secondArbiter = anchor.web3.Keypair.generate();
+      const thirdArbiter = anchor.web3.Keypair.generate();
+      await provider.connection.requestAirdrop(secondArbiter.publicKey, anchor.web3.LAMPORTS_PER_SOL);
+      await new Promise(resolve => setTimeout(resolve, 1000));
+
+      const { escrow } = await client.initializeEscrow(buyerKeypair, {
+        amount: ESCROW_AMOUNT,
+        seller: sellerKeypair.publicKey,
+        mint,
+        releaseConditions: "Panel decides disputes",
+        arbiterPanel: {
+          arbiters: [arbiterKeypair.publicKey, secondArbiter.publicKey, thirdArbiter.publicKey],
+          threshold: 2,
+        },
+      });
+      await client.deposit(buyerKeypair, escrow, mint);
+      await client.raiseDispute(buyerKeypair, escrow);
+
+      await client.castArbiterVote(arbiterKeypair, escrow, "refund");
+
+      // One vote is not enough
+      const { tally, threshold } = await client.getArbiterVotes(escrow);
+      assert.equal(threshold, 2);
+      assert.deepEqual(tally, [{ buyerShareBps: 10000, votes: 1 }]);
+      let escrowAccount = await program.account.escrowAccount.fetch(escrow);
+      assert.equal(escrowAccount.state.disputed !== undefined, true);
+
+      const buyerBefore = await getAccount(provider.connection, buyerTokenAccount);
+      await client.castArbiterVote(secondArbiter, escrow, "refund");
+      const buyerAfter = await getAccount(provider.connection, buyerTokenAccount);
+
+      assert.equal(
+        (buyerAfter.amount - buyerBefore.amount).toString(),
+        ESCROW_AMOUNT.toString()
+      );
+      escrowAccount = await program.account.escrowAccount.fetch(escrow);
+      assert.equal(escrowAccount.state.resolved !== undefined, true);
+    });
+
+    it("Should fail when a non-member votes", async () => {
+      const client = new EscrowClient(program, provider);
+      const { escrow } = await client.initializeEscrow(buyerKeypair, {
+        amount: ESCROW_AMOUNT,
+        seller: sellerKeypair.publicKey,
+        mint,
+        releaseConditions: "Panel decides disputes",
+        arbiterPanel: { arbiters: [arbiterKeypair.publicKey], threshold: 1 },
+      });
+      await client.deposit(buyerKeypair, escrow, mint);
+      await client.raiseDispute(sellerKeypair, escrow);
+
+      try {
+        await client.castArbiterVote(sellerKeypair, escrow, "release");
+        assert.fail("Should have failed");
+      } catch (error) {
+        assert.equal(error.code, "UnauthorizedVote");
+      }
+    });
+  });
+
+  describe("Asset Swap", () => {
+    let nftMint: anchor.web3.PublicKey;
+    let sellerNftAccount: anchor.web3.PublicKey;
+
+    before(async () => {
+      // A 0-decimal, supply-of-one mint stands in for an NFT
+      nftMint = await createMint(
+        provider.connection,
+        sellerKeypair,
+        sellerKeypair.publicKey,
+        null,
+        0
+      );
+      sellerNftAccount = await createAccount(
+        provider.connection,
+        sellerKeypair,
+        nftMint,
+        sellerKeypair.publicKey
+      );
+      await mintTo(
+        provider.connection,
+        sellerKeypair,
+        nftMint,
+        sellerNftAccount,
+        sellerKeypair,
+        1
+      );
+    });
+
+    it("Should swap both deposits atomically", async () => {
+      const client = new EscrowClient(program, provider);
+      const { escrow } = await client.initializeEscrow(buyerKeypair, {
+        amount: ESCROW_AMOUNT,
+        seller: sellerKeypair.publicKey,
+        mint,
+        releaseConditions: "Tokens for the NFT",
+        counterAsset: { mint: nftMint, amount: new anchor.BN(1) },
+      });
+      await client.deposit(buyerKeypair, escrow, mint);
+
+      // Nothing to swap until the seller's side is in
+      try {
+        await client.settleSwap(arbiterKeypair, escrow);
+        assert.fail("Should have failed");
+      } catch (error) {
+        assert.equal(error.code, "CounterAssetMissing");
+      }
+
+      await client.depositCounterAsset(sellerKeypair, escrow);
+
+      // The plain release path is closed to swaps
+      try {
+        await client.releaseFunds(buyerKeypair, escrow);
+        assert.fail("Should have failed");
+      } catch (error) {
+        assert.equal(error.code, "SwapEscrow");
+      }
+
+      const sellerBefore = await getAccount(provider.connection, sellerTokenAccount);
+      await client.settleSwap(arbiterKeypair, escrow);
+
+      const sellerAfter = await getAccount(provider.connection, sellerTokenAccount);
+      assert.equal(
+        (sellerAfter.amount - sellerBefore.amount).toString(),
+        ESCROW_AMOUNT.sub(feeFor(ESCROW_AMOUNT)).toString()
+      );
+      const buyerNftAccount = await getAssociatedTokenAddress(nftMint, buyerKeypair.publicKey);
+      assert.equal((await getAccount(provider.connection, buyerNftAccount)).amount.toString(), "1");
+
+      const escrowAccount = await program.account.escrowAccount.fetch(escrow);
+      assert.equal(escrowAccount.state.released !== undefined, true);
+      assert.isTrue(escrowAccount.counterDepositedAmount.isZero());
+
+      // Nothing is left in either vault, so the buyer gets the rent back
+      await client.closeEscrow(buyerKeypair, escrow);
+      assert.isNull(await provider.connection.getAccountInfo(escrow));
+    });
+
+    it("Should let the seller withdraw when the buyer never funds", async () => {
+      const client = new EscrowClient(program, provider);
+      // The buyer holds the NFT now, so the seller offers plain tokens instead
+      const { escrow } = await client.initializeEscrow(buyerKeypair, {
+        amount: ESCROW_AMOUNT,
+        seller: sellerKeypair.publicKey,
+        mint,
+        releaseConditions: "Tokens for tokens",
+        counterAsset: { mint, amount: new anchor.BN(1000) },
+      });
+
+      const sellerBefore = await getAccount(provider.connection, sellerTokenAccount);
+      await client.depositCounterAsset(sellerKeypair, escrow);
+      await client.withdrawCounterAsset(sellerKeypair, escrow);
+      const sellerAfter = await getAccount(provider.connection, sellerTokenAccount);
+
+      assert.equal(sellerAfter.amount.toString(), sellerBefore.amount.toString());
+      const info = await client.getEscrowInfo(escrow);
+      assert.isTrue(info.counterDepositedAmount.isZero());
+    });
+
+    it("Should freeze the terms once the counter asset is deposited", async () => {
+      const client = new EscrowClient(program, provider);
+      const { escrow } = await client.initializeEscrow(buyerKeypair, {
+        amount: ESCROW_AMOUNT,
+        seller: sellerKeypair.publicKey,
+        mint,
+        releaseConditions: "Tokens for tokens",
+        counterAsset: { mint, amount: new anchor.BN(1000) },
+      });
+      await client.depositCounterAsset(sellerKeypair, escrow);
+
+      // Naming a new seller would let the buyer take the counter asset back
+      try {
+        await client.amendEscrow(buyerKeypair, escrow, { seller: buyerKeypair.publicKey });
+        assert.fail("Should have failed");
+      } catch (error) {
+        assert.equal(error.code, "CounterAssetDeposited");
+      }
+      try {
+        await client.enableSwap(buyerKeypair, escrow, { mint, amount: new anchor.BN(1) });
+        assert.fail("Should have failed");
+      } catch (error) {
+        assert.equal(error.code, "CounterAssetDeposited");
+      }
+
+      // After withdrawing, the seller has nothing at stake and the buyer may amend again
+      await client.withdrawCounterAsset(sellerKeypair, escrow);
+      await client.amendEscrow(buyerKeypair, escrow, { amount: ESCROW_AMOUNT.muln(2) });
+      const escrowAccount = await program.account.escrowAccount.fetch(escrow);
+      assert.equal(escrowAccount.amount.toString(), ESCROW_AMOUNT.muln(2).toString());
+    });
+
+    it("Should not let the buyer cancel once both sides are funded", async () => {
+      const client = new EscrowClient(program, provider);
+      const { escrow } = await client.initializeEscrow(buyerKeypair, {
+        amount: ESCROW_AMOUNT,
+        seller: sellerKeypair.publicKey,
+        mint,
+        releaseConditions: "Tokens for tokens",
+        counterAsset: { mint, amount: new anchor.BN(1000) },
+      });
+      await client.depositCounterAsset(sellerKeypair, escrow);
+      await client.deposit(buyerKeypair, escrow, mint);
+
+      try {
+        await client.cancelEscrow(buyerKeypair, escrow);
+        assert.fail("Should have failed");
+      } catch (error) {
+        assert.equal(error.code, "SwapReady");
+      }
+    });
+  });
+
+  describe("Vesting", () => {
+    const now = () => Math.floor(Date.now() / 1000);
+
+    it("Should let the seller withdraw the vested portion", async () => {
+      const client = new EscrowClient(program, provider);
+      const { escrow } = await client.initializeEscrow(buyerKeypair, {
+        amount: ESCROW_AMOUNT,
+        seller: sellerKeypair.publicKey,
+        mint,
+        releaseConditions: "Monthly retainer",
+        vesting: { startTs: new anchor.BN(now() - 1000), endTs: new anchor.BN(now() + 1000) },
+      });
+      await client.deposit(buyerKeypair, escrow, mint);
+
+      // The one-shot release is closed to vesting escrows
+      try {
+        await client.releaseFunds(buyerKeypair, escrow);
+        assert.fail("Should have failed");
+      } catch (error) {
+        assert.equal(error.code, "VestingEscrow");
+      }
+
+      const sellerBefore = await getAccount(provider.connection, sellerTokenAccount);
+      await client.withdrawVested(sellerKeypair, escrow);
+      const sellerAfter = await getAccount(provider.connection, sellerTokenAccount);
+
+      // About half has vested
+      const received = Number(sellerAfter.amount - sellerBefore.amount);
+      assert.isAbove(received, ESCROW_AMOUNT.toNumber() * 0.4);
+      assert.isBelow(received, ESCROW_AMOUNT.toNumber() * 0.6);
+
+      const info = await client.getEscrowInfo(escrow);
+      assert.equal(info.state, "funded");
+      assert.equal(
+        received,
+        info.releasedAmount.sub(feeFor(info.releasedAmount)).toNumber()
+      );
+    });
+
+    it("Should refund only the unvested remainder on cancel", async () => {
+      const client = new EscrowClient(program, provider);
+      const { escrow } = await client.initializeEscrow(buyerKeypair, {
+        amount: ESCROW_AMOUNT,
+        seller: sellerKeypair.publicKey,
+        mint,
+        releaseConditions: "Monthly retainer",
+        vesting: { startTs: new anchor.BN(now() - 1500), endTs: new anchor.BN(now() + 500) },
+      });
+      await client.deposit(buyerKeypair, escrow, mint);
+
+      const buyerBefore = await getAccount(provider.connection, buyerTokenAccount);
+      await client.cancelEscrow(buyerKeypair, escrow);
+      const buyerAfter = await getAccount(provider.connection, buyerTokenAccount);
+      const refund = new anchor.BN((buyerAfter.amount - buyerBefore.amount).toString());
+
+      // The seller keeps what vested before the cancel
+      await client.withdrawVested(sellerKeypair, escrow);
+      const info = await client.getEscrowInfo(escrow);
+      assert.equal(info.state, "cancelled");
+      assert.equal(refund.add(info.releasedAmount).toString(), ESCROW_AMOUNT.toString());
+      assert.isTrue(refund.lt(ESCROW_AMOUNT.divn(2)));
+    });
+
+    it("Should fail to withdraw before the cliff", async () => {
+      const client = new EscrowClient(program, provider);
+      const { escrow } = await client.initializeEscrow(buyerKeypair, {
+        amount: ESCROW_AMOUNT,
+        seller: sellerKeypair.publicKey,
+        mint,
+        releaseConditions: "Retainer with a cliff",
+        vesting: {
+          startTs: new anchor.BN(now() - 1000),
+          endTs: new anchor.BN(now() + 3000),
+          cliffTs: new anchor.BN(now() + 1000),
+        },
+      });
+      await client.deposit(buyerKeypair, escrow, mint);
+
+      const info = await client.getEscrowInfo(escrow);
+      assert.isTrue(client.computeVested(info, now()).isZero());
+
+      try {
+        await client.withdrawVested(sellerKeypair, escrow);
+        assert.fail("Should have failed");
+      } catch (error) {
+        assert.equal(error.code, "NothingVested");
+      }
+    });
+  });
+
+  describe("Delegates", () => {
+    it("Should let a delegate release on the buyer's behalf", async () => {
+      const client = new EscrowClient(program, provider);
+      const backendKeypair = anchor.web3.Keypair.generate();
+      const { escrow } = await client.initializeEscrow(buyerKeypair, {
+        amount: ESCROW_AMOUNT,
+        seller: sellerKeypair.publicKey,
+        mint,
+        releaseConditions: "Backend releases on delivery",
+      });
+      await client.deposit(buyerKeypair, escrow, mint);
+      await client.setDelegate(buyerKeypair, escrow, {
+        delegate: backendKeypair.publicKey,
+        actions: ["release"],
+      });
+
+      // Release-only delegates can't cancel
+      try {
+        await client.cancelEscrow(backendKeypair, escrow);
+        assert.fail("Should have failed");
+      } catch (error) {
+        assert.equal(error.code, "UnauthorizedCancel");
+      }
+
+      await client.releaseFunds(backendKeypair, escrow);
+
+      const escrowAccount = await program.account.escrowAccount.fetch(escrow);
+      assert.equal(escrowAccount.state.released !== undefined, true);
+      assert.equal(escrowAccount.releasedBy.toString(), buyerKeypair.publicKey.toString());
+    });
+
+    it("Should fail to release after the delegate is revoked", async () => {
+      const client = new EscrowClient(program, provider);
+      const backendKeypair = anchor.web3.Keypair.generate();
+      const { escrow } = await client.initializeEscrow(buyerKeypair, {
+        amount: ESCROW_AMOUNT,
+        seller: sellerKeypair.publicKey,
+        mint,
+        releaseConditions: "Backend releases on delivery",
+      });
+      await client.deposit(buyerKeypair, escrow, mint);
+      await client.setDelegate(buyerKeypair, escrow, {
+        delegate: backendKeypair.publicKey,
+        actions: ["release", "cancel"],
+        expiresAt: new anchor.BN(Math.floor(Date.now() / 1000) + 3600),
+      });
+
+      const info = await client.getEscrowInfo(escrow);
+      assert.deepEqual(info.delegates[0].actions, ["release", "cancel"]);
+
+      await client.revokeDelegate(buyerKeypair, escrow);
+
+      try {
+        await client.releaseFunds(backendKeypair, escrow);
+        assert.fail("Should have failed");
+      } catch (error) {
+        assert.equal(error.code, "UnauthorizedRelease");
+      }
+    });
+  });
+
+  describe("Attested Release", () => {
+    const conditionHash = createHash("sha256").update("Parcel delivered").digest();
+
+    it("Should release on the attestor's signature", async () => {
+      const client = new EscrowClient(program, provider);
+      const attestorKeypair = anchor.web3.Keypair.generate();
+      const { escrow } = await client.initializeEscrow(buyerKeypair, {
+        amount: ESCROW_AMOUNT,
+        seller: sellerKeypair.publicKey,
+        mint,
+        releaseConditions: "Parcel delivered",
+        attestation: { attestor: attestorKeypair.publicKey, conditionHash },
+      });
+      await client.deposit(buyerKeypair, escrow, mint);
+
+      // The attestor only signs; anyone can submit the release
+      const attestation = signAttestation(attestorKeypair, escrow, conditionHash);
+      const sellerBefore = await getAccount(provider.connection, sellerTokenAccount);
+      await client.releaseWithAttestation(arbiterKeypair, escrow, attestation);
+      const sellerAfter = await getAccount(provider.connection, sellerTokenAccount);
+
+      assert.equal(
+        (sellerAfter.amount - sellerBefore.amount).toString(),
+        ESCROW_AMOUNT.sub(feeFor(ESCROW_AMOUNT)).toString()
+      );
+      const escrowAccount = await program.account.escrowAccount.fetch(escrow);
+      assert.equal(escrowAccount.state.released !== undefined, true);
+    });
+
+    it("Should fail with an attestation from another key", async () => {
+      const client = new EscrowClient(program, provider);
+      const attestorKeypair = anchor.web3.Keypair.generate();
+      const imposterKeypair = anchor.web3.Keypair.generate();
+      const { escrow, vault } = await client.initializeEscrow(buyerKeypair, {
+        amount: ESCROW_AMOUNT,
+        seller: sellerKeypair.publicKey,
+        mint,
+        releaseConditions: "Parcel delivered",
+        attestation: { attestor: attestorKeypair.publicKey, conditionHash },
+      });
+      await client.deposit(buyerKeypair, escrow, mint);
+
+      // A valid signature, but not from the escrow's attestor
+      const forged = createAttestationInstruction(
+        imposterKeypair.publicKey,
+        escrow,
+        conditionHash,
+        signAttestation(imposterKeypair, escrow, conditionHash)
+      );
+
+      try {
+        await program.methods
+          .releaseWithAttestation()
+          .accounts({
+            escrow,
+            vault,
+            authority: sellerKeypair.publicKey,
+            sellerTokenAccount,
+            config: configPda,
+            treasuryTokenAccount,
+            mint: mint,
+            tokenProgram: TOKEN_PROGRAM_ID,
+          })
+          .preInstructions([forged])
+          .signers([sellerKeypair])
+          .rpc();
+        assert.fail("Should have failed");
+      } catch (error) {
+        assert.include(error.message, "InvalidAttestation");
+      }
+    });
+  });
+
+  describe("Hash Lock", () => {
+    it("Should release to whoever reveals the preimage", async () => {
+      const client = new EscrowClient(program, provider);
+      const secret = randomBytes(32);
+      const secretHash = createHash("sha256").update(secret).digest();
+      const { escrow } = await client.createHashLockedEscrow(
+        buyerKeypair,
+        {
+          amount: ESCROW_AMOUNT,
+          seller: sellerKeypair.publicKey,
+          mint,
+          releaseConditions: "Settles against the off-chain ledger",
+          timeoutDuration: new anchor.BN(3600),
+        },
+        secretHash
+      );
+      await client.deposit(buyerKeypair, escrow, mint);
+
+      try {
+        await client.claimWithPreimage(arbiterKeypair, escrow, randomBytes(32));
+        assert.fail("Should have failed");
+      } catch (error) {
+        assert.equal(error.code, "InvalidPreimage");
+      }
+
+      // Neither the plain release nor an early refund is possible
+      try {
+        await client.releaseFunds(buyerKeypair, escrow);
+        assert.fail("Should have failed");
+      } catch (error) {
+        assert.equal(error.code, "HashLocked");
+      }
+      try {
+        await client.cancelEscrow(buyerKeypair, escrow);
+        assert.fail("Should have failed");
+      } catch (error) {
+        assert.equal(error.code, "HashLocked");
+      }
+
+      const sellerBefore = await getAccount(provider.connection, sellerTokenAccount);
+      const signature = await client.claimWithPreimage(arbiterKeypair, escrow, secret);
+      const sellerAfter = await getAccount(provider.connection, sellerTokenAccount);
+
+      assert.equal(
+        (sellerAfter.amount - sellerBefore.amount).toString(),
+        ESCROW_AMOUNT.sub(feeFor(ESCROW_AMOUNT)).toString()
+      );
+
+      // Counterparties pick the secret up from the event
+      const tx = await provider.connection.getTransaction(signature, {
+        commitment: "confirmed",
+        maxSupportedTransactionVersion: 0,
+      });
+      const events = [
+        ...new anchor.EventParser(program.programId, program.coder).parseLogs(tx.meta.logMessages),
+      ];
+      const revealed = events.find(event => event.name === "preimageRevealed");
+      assert.equal(Buffer.from(revealed.data.preimage).toString("hex"), secret.toString("hex"));
+    });
+
+    it("Should not add a swap or vesting to a hash-locked escrow", async () => {
+      const client = new EscrowClient(program, provider);
+      const { escrow } = await client.createHashLockedEscrow(
+        buyerKeypair,
+        {
+          amount: ESCROW_AMOUNT,
+          seller: sellerKeypair.publicKey,
+          mint,
+          releaseConditions: "Settles against the off-chain ledger",
+          timeoutDuration: new anchor.BN(3600),
+        },
+        createHash("sha256").update(randomBytes(32)).digest()
+      );
+
+      // Either would open a second payout path next to the preimage claim
+      try {
+        await client.enableSwap(buyerKeypair, escrow, { mint, amount: new anchor.BN(1000) });
+        assert.fail("Should have failed");
+      } catch (error) {
+        assert.equal(error.code, "HashLocked");
+      }
+      const now = Math.floor(Date.now() / 1000);
+      try {
+        await client.setVesting(buyerKeypair, escrow, {
+          startTs: new anchor.BN(now),
+          endTs: new anchor.BN(now + 3600),
+        });
+        assert.fail("Should have failed");
+      } catch (error) {
+        assert.equal(error.code, "HashLocked");
+      }
+    });
+
+    it("Should refund the buyer after the deadline", async () => {
+      const client = new EscrowClient(program, provider);
+      const secret = randomBytes(32);
+      const { escrow } = await client.createHashLockedEscrow(
+        buyerKeypair,
+        {
+          amount: ESCROW_AMOUNT,
+          seller: sellerKeypair.publicKey,
+          mint,
+          releaseConditions: "Settles against the off-chain ledger",
+          timeoutDuration: new anchor.BN(1),
+        },
+        createHash("sha256").update(secret).digest()
+      );
+      await client.deposit(buyerKeypair, escrow, mint);
+
+      await new Promise(resolve => setTimeout(resolve, 2000));
+
+      try {
+        await client.claimWithPreimage(sellerKeypair, escrow, secret);
+        assert.fail("Should have failed");
+      } catch (error) {
+        assert.equal(error.code, "HashLockExpired");
+      }
+
+      const buyerBefore = await getAccount(provider.connection, buyerTokenAccount);
+      await client.settleExpired(arbiterKeypair, escrow);
+      const buyerAfter = await getAccount(provider.connection, buyerTokenAccount);
+
+      assert.equal(
+        (buyerAfter.amount - buyerBefore.amount).toString(),
+        ESCROW_AMOUNT.toString()
+      );
+    });
+  });
+
+  describe("Seller Acceptance", () => {
+    const deriveEscrow = (seed: anchor.BN) => {
+      const [escrow] = anchor.web3.PublicKey.findProgramAddressSync(
+        [
+          Buffer.from("escrow"),
+          buyerKeypair.publicKey.toBuffer(),
+          seed.toArrayLike(Buffer, "le", 8)
+        ],
+        program.programId
+      );
+      const [vault] = anchor.web3.PublicKey.findProgramAddressSync(
+        [
+          Buffer.from("vault"),
+          buyerKeypair.publicKey.toBuffer(),
+          seed.toArrayLike(Buffer, "le", 8)
+        ],
+        program.programId
+      );
+      return { escrow, vault };
+    };
+
+    const createEscrowAwaitingAcceptance = async (seed: anchor.BN) => {
+      const { escrow, vault } = deriveEscrow(seed);
+
+      await program.methods
+        .initializeEscrow(
+          ESCROW_AMOUNT,
+          seed,
+          sellerKeypair.publicKey,
+          "Seller must agree to these terms",
+          null
+        )
+        .accounts({
+          escrow,
+          vault,
+          buyer: buyerKeypair.publicKey,
+          mint: mint,
+          tokenProgram: TOKEN_PROGRAM_ID,
+        })
+        .postInstructions([
+          await program.methods
+            .requireAcceptance()
+            .accounts({
+              escrow,
+              authority: buyerKeypair.publicKey,
+            })
+            .instruction(),
+        ])
+        .signers([buyerKeypair])
+        .rpc();
+
+      return { escrow, vault };
+    };
+
+    it("Should refuse deposits until the seller accepts", async () => {
+      const { escrow, vault } = await createEscrowAwaitingAcceptance(new anchor.BN(Date.now() + 800));
+
+      let escrowAccount = await program.account.escrowAccount.fetch(escrow);
+      assert.equal(escrowAccount.state.awaitingAcceptance !== undefined, true);
+
+      try {
+        await program.methods
+          .deposit()
+          .accounts({
+            escrow,
+            vault,
+            depositor: buyerKeypair.publicKey,
+            depositorTokenAccount: buyerTokenAccount,
+            mint: mint,
+            tokenProgram: TOKEN_PROGRAM_ID,
+          })
+          .signers([buyerKeypair])
+          .rpc();
+
+        assert.fail("Expected transaction to fail");
+      } catch (error) {
+        assert.include(error.message, "AcceptancePending");
+      }
+
+      await program.methods
+        .acceptEscrow()
+        .accounts({
+          escrow,
+          seller: sellerKeypair.publicKey,
+        })
+        .signers([sellerKeypair])
+        .rpc();
+
+      escrowAccount = await program.account.escrowAccount.fetch(escrow);
+      assert.equal(escrowAccount.state.initialized !== undefined, true);
+      assert.isNotNull(escrowAccount.acceptedAt);
+
+      // Changing the terms voids the acceptance
+      await program.methods
+        .updateConditions("Different terms")
+        .accounts({
+          escrow,
+          authority: buyerKeypair.publicKey,
+        })
+        .signers([buyerKeypair])
+        .rpc();
+
+      escrowAccount = await program.account.escrowAccount.fetch(escrow);
+      assert.equal(escrowAccount.state.awaitingAcceptance !== undefined, true);
+    });
+
+    it("Should let the seller reject the escrow", async () => {
+      const { escrow } = await createEscrowAwaitingAcceptance(new anchor.BN(Date.now() + 900));
+
+      try {
+        await program.methods
+          .rejectEscrow()
+          .accounts({
+            escrow,
+            seller: arbiterKeypair.publicKey,
+          })
+          .signers([arbiterKeypair])
+          .rpc();
+
+        assert.fail("Expected transaction to fail");
+      } catch (error) {
+        assert.include(error.message, "UnauthorizedAcceptance");
+      }
+
+      await program.methods
+        .rejectEscrow()
+        .accounts({
+          escrow,
+          seller: sellerKeypair.publicKey,
+        })
+        .signers([sellerKeypair])
+        .rpc();
+
+      const escrowAccount = await program.account.escrowAccount.fetch(escrow);
+      assert.equal(escrowAccount.state.cancelled !== undefined, true);
+      assert.equal(escrowAccount.cancelledBy.toString(), sellerKeypair.publicKey.toString());
+    });
+  });
+
+  describe("Program Config", () => {
+    it("Should only let the admin update the config", async () => {
+      try {
+        await program.methods
+          .updateConfig(0, null, null)
+          .accounts({
+            config: configPda,
+            admin: buyerKeypair.publicKey,
+          })
+          .signers([buyerKeypair])
+          .rpc();
+
+        assert.fail("Expected transaction to fail");
+      } catch (error) {
+        assert.include(error.message, "UnauthorizedAdmin");
+      }
+    });
+
+    it("Should reject fees above the maximum", async () => {
+      try {
+        await program.methods
+          .updateConfig(1001, null, null)
+          .accounts({
+            config: configPda,
+            admin: provider.wallet.publicKey,
+          })
+          .rpc();
+
+        assert.fail("Expected transaction to fail");
+      } catch (error) {
+        assert.include(error.message, "FeeTooHigh");
+      }
+
+      const config = await program.account.config.fetch(configPda);
+      assert.equal(config.feeBps, FEE_BPS);
+      assert.equal(config.treasury.toString(), treasuryKeypair.publicKey.toString());
+    });
+
+    it("Should block new escrows and deposits while paused, but not cancels", async () => {
+      const client = new EscrowClient(program, provider);
+      const admin = (provider.wallet as anchor.Wallet).payer;
+      const config = {
+        amount: ESCROW_AMOUNT,
+        seller: sellerKeypair.publicKey,
+        mint,
+        releaseConditions: "Created before the pause",
+      };
+      const { escrow: unfunded } = await client.initializeEscrow(buyerKeypair, config);
+      const { escrow: funded } = await client.initializeEscrow(buyerKeypair, config);
+      await client.deposit(buyerKeypair, funded, mint);
+
+      try {
+        await client.pause(buyerKeypair);
+        assert.fail("Should have failed");
+      } catch (error) {
+        assert.equal(error.code, "UnauthorizedAdmin");
+      }
+
+      await client.pause(admin);
+      assert.isTrue(await client.getPauseStatus());
+
+      try {
+        await client.initializeEscrow(buyerKeypair, config);
+        assert.fail("Should have failed");
+      } catch (error) {
+        assert.equal(error.code, "ProgramPaused");
+      }
+      try {
+        await client.deposit(buyerKeypair, unfunded, mint);
+        assert.fail("Should have failed");
+      } catch (error) {
+        assert.equal(error.code, "ProgramPaused");
+      }
+
+      // Funds can still be refunded
+      await client.cancelEscrow(buyerKeypair, funded);
+      const escrowAccount = await program.account.escrowAccount.fetch(funded);
+      assert.isTrue(escrowAccount.state.cancelled !== undefined);
+
+      await client.unpause(admin);
+      assert.isFalse(await client.getPauseStatus());
+      await client.deposit(buyerKeypair, unfunded, mint);
+    });
+  });
+
+  describe("Native SOL", () => {
+    it("Should hold plain SOL on the escrow account and pay the seller in SOL", async () => {
+      const client = new EscrowClient(program, provider);
+
+      // The fee is paid straight to the treasury wallet, which must exist to
+      // take less than the rent-exempt minimum
+      await provider.connection.confirmTransaction(
+        await provider.connection.requestAirdrop(treasuryKeypair.publicKey, anchor.web3.LAMPORTS_PER_SOL)
+      );
+
+      const { escrow } = await client.initializeEscrow(buyerKeypair, {
+        amount: ESCROW_AMOUNT,
+        seller: sellerKeypair.publicKey,
+        mint: NATIVE_MINT,
+        releaseConditions: "Paid in SOL",
+      });
+
+      const buyerLamportsBefore = await provider.connection.getBalance(buyerKeypair.publicKey);
+      const escrowLamportsBefore = await provider.connection.getBalance(escrow);
+      await client.deposit(buyerKeypair, escrow, NATIVE_MINT);
+      const buyerLamportsAfter = await provider.connection.getBalance(buyerKeypair.publicKey);
+      assert.isTrue(buyerLamportsBefore - buyerLamportsAfter >= ESCROW_AMOUNT.toNumber());
+      assert.equal(
+        await provider.connection.getBalance(escrow),
+        escrowLamportsBefore + ESCROW_AMOUNT.toNumber()
+      );
+
+      // No wSOL is involved
+      const escrowAccount = await program.account.escrowAccount.fetch(escrow);
+      assert.isTrue(escrowAccount.holdsLamports);
+      const { vault } = await client.getEscrowInfo(escrow);
+      assert.equal((await getAccount(provider.connection, vault)).amount.toString(), "0");
+      const buyerWrapped = await getAssociatedTokenAddress(NATIVE_MINT, buyerKeypair.publicKey);
+      assert.isNull(await provider.connection.getAccountInfo(buyerWrapped));
+
+      const sellerLamportsBefore = await provider.connection.getBalance(sellerKeypair.publicKey);
+      const treasuryLamportsBefore = await provider.connection.getBalance(treasuryKeypair.publicKey);
+      await client.releaseFunds(sellerKeypair, escrow);
+      const sellerLamportsAfter = await provider.connection.getBalance(sellerKeypair.publicKey);
+
+      // Seller receives SOL minus the protocol fee and the transaction fee
+      const expectedMinimum = ESCROW_AMOUNT.sub(feeFor(ESCROW_AMOUNT)).toNumber() - 10000;
+      assert.isTrue(sellerLamportsAfter - sellerLamportsBefore >= expectedMinimum);
+      assert.equal(
+        await provider.connection.getBalance(treasuryKeypair.publicKey),
+        treasuryLamportsBefore + feeFor(ESCROW_AMOUNT).toNumber()
+      );
+      assert.equal(await provider.connection.getBalance(escrow), escrowLamportsBefore);
+    });
+
+    it("Should pay SOL to a seller who doesn't sign the release", async () => {
+      const client = new EscrowClient(program, provider);
+      const { escrow } = await client.initializeEscrow(buyerKeypair, {
+        amount: ESCROW_AMOUNT,
+        seller: sellerKeypair.publicKey,
+        mint: NATIVE_MINT,
+        releaseConditions: "Paid in SOL",
+      });
+      await client.deposit(buyerKeypair, escrow, NATIVE_MINT);
+
+      // The seller neither signs nor pays a fee, so they get exactly the payout
+      const sellerLamportsBefore = await provider.connection.getBalance(sellerKeypair.publicKey);
+      await client.releaseFunds(buyerKeypair, escrow);
+      assert.equal(
+        await provider.connection.getBalance(sellerKeypair.publicKey),
+        sellerLamportsBefore + ESCROW_AMOUNT.sub(feeFor(ESCROW_AMOUNT)).toNumber()
+      );
+
+      const sellerWrapped = await getAssociatedTokenAddress(NATIVE_MINT, sellerKeypair.publicKey);
+      assert.isNull(await provider.connection.getAccountInfo(sellerWrapped));
+    });
+
+    it("Should refund SOL to a buyer when the arbiter cancels", async () => {
+      const client = new EscrowClient(program, provider);
+      const { escrow } = await client.initializeEscrow(buyerKeypair, {
+        amount: ESCROW_AMOUNT,
+        seller: sellerKeypair.publicKey,
+        mint: NATIVE_MINT,
+        releaseConditions: "Refunded in SOL",
+      });
+      await client.setArbiter(buyerKeypair, escrow, arbiterKeypair.publicKey);
+      await client.deposit(buyerKeypair, escrow, NATIVE_MINT);
+
+      const buyerLamportsBefore = await provider.connection.getBalance(buyerKeypair.publicKey);
+      await client.cancelEscrow(arbiterKeypair, escrow);
+      assert.equal(
+        await provider.connection.getBalance(buyerKeypair.publicKey),
+        buyerLamportsBefore + ESCROW_AMOUNT.toNumber()
+      );
+
+      const escrowAccount = await program.account.escrowAccount.fetch(escrow);
+      assert.isTrue(escrowAccount.state.cancelled !== undefined);
+    });
+  });
+
+  describe("Token-2022", () => {
+    it("Should escrow a Token-2022 mint with a transfer fee", async () => {
+      const client = new EscrowClient(program, provider);
+      const transferFeeBps = 50;
+
+      // Create a Token-2022 mint that withholds 0.5% on every transfer
+      const mintKeypair = anchor.web3.Keypair.generate();
+      const mintLen = getMintLen([ExtensionType.TransferFeeConfig]);
+      const lamports = await provider.connection.getMinimumBalanceForRentExemption(mintLen);
+      const createMintTx = new anchor.web3.Transaction().add(
+        anchor.web3.SystemProgram.createAccount({
+          fromPubkey: buyerKeypair.publicKey,
+          newAccountPubkey: mintKeypair.publicKey,
+          space: mintLen,
+          lamports,
+          programId: TOKEN_2022_PROGRAM_ID,
+        }),
+        createInitializeTransferFeeConfigInstruction(
+          mintKeypair.publicKey,
+          buyerKeypair.publicKey,
+          buyerKeypair.publicKey,
+          transferFeeBps,
+          BigInt(1_000_000_000),
+          TOKEN_2022_PROGRAM_ID
+        ),
+        createInitializeMintInstruction(
+          mintKeypair.publicKey,
+          6,
+          buyerKeypair.publicKey,
+          null,
+          TOKEN_2022_PROGRAM_ID
+        )
+      );
+      await anchor.web3.sendAndConfirmTransaction(
+        provider.connection,
+        createMintTx,
+        [buyerKeypair, mintKeypair]
+      );
+      const mint2022 = mintKeypair.publicKey;
+
+      const buyerToken2022 = await createAccount(
+        provider.connection, buyerKeypair, mint2022, buyerKeypair.publicKey,
+        undefined, undefined, TOKEN_2022_PROGRAM_ID
+      );
+      await createAccount(
+        provider.connection, buyerKeypair, mint2022, sellerKeypair.publicKey,
+        undefined, undefined, TOKEN_2022_PROGRAM_ID
+      );
+      await createAccount(
+        provider.connection, buyerKeypair, mint2022, treasuryKeypair.publicKey,
+        undefined, undefined, TOKEN_2022_PROGRAM_ID
+      );
+      await mintTo(
+        provider.connection, buyerKeypair, mint2022, buyerToken2022, buyerKeypair,
+        ESCROW_AMOUNT.toNumber(), [], undefined, TOKEN_2022_PROGRAM_ID
+      );
+
+      const { escrow, vault } = await client.initializeEscrow(buyerKeypair, {
+        amount: ESCROW_AMOUNT,
+        seller: sellerKeypair.publicKey,
+        mint: mint2022,
+        releaseConditions: "Token-2022 delivery",
+      });
+
+      await client.deposit(buyerKeypair, escrow, mint2022);
+
+      // The vault only holds what arrived after the mint's transfer fee
+      const expectedReceived = ESCROW_AMOUNT.sub(
+        ESCROW_AMOUNT.muln(transferFeeBps).divn(10000)
+      );
+      const funded = await client.getEscrowInfo(escrow);
+      assert.equal(funded.depositedAmount.toString(), expectedReceived.toString());
+      assert.equal(funded.remainingAmount.toString(), expectedReceived.toString());
+
+      const vaultAccount = await getAccount(
+        provider.connection, vault, undefined, TOKEN_2022_PROGRAM_ID
+      );
+      assert.equal(vaultAccount.amount.toString(), expectedReceived.toString());
+
+      await client.releaseFunds(buyerKeypair, escrow);
+
+      const vaultAfter = await getAccount(
+        provider.connection, vault, undefined, TOKEN_2022_PROGRAM_ID
+      );
+      assert.equal(vaultAfter.amount.toString(), "0");
+
+      const released = await client.getEscrowInfo(escrow);
+      assert.equal(released.state.released !== undefined, true);
+      assert.equal(released.releasedAmount.toString(), expectedReceived.toString());
+    });
+  });
+
+  describe("Wallet Signers", () => {
+    // Stands in for a browser wallet: signs without exposing its secret key
+    const walletFor = (keypair: anchor.web3.Keypair): WalletSigner => ({
+      publicKey: keypair.publicKey,
+      signTransaction: async (transaction: any) => {
+        transaction.partialSign(keypair);
+        return transaction;
+      },
+    });
+
+    it("Should accept a wallet-adapter signer in place of a Keypair", async () => {
+      const client = new EscrowClient(program, provider);
+      const seller = walletFor(sellerKeypair);
+      const { escrow } = await client.initializeEscrow(walletFor(buyerKeypair), {
+        amount: ESCROW_AMOUNT,
+        seller: sellerKeypair.publicKey,
+        mint,
+        releaseConditions: "Signed from a wallet",
+        requireAcceptance: true,
+      });
+      await client.acceptEscrow(seller, escrow);
+      await client.deposit(buyerKeypair, escrow, mint);
+
+      // Program errors are still decoded for wallet signers
+      try {
+        await client.cancelEscrow(seller, escrow);
+        assert.fail("Should have failed");
+      } catch (error) {
+        assert.equal(error.code, "UnauthorizedCancel");
+      }
+
+      await client.releaseFunds(seller, escrow);
+      const escrowAccount = await program.account.escrowAccount.fetch(escrow);
+      assert.isTrue(escrowAccount.state.released !== undefined);
+    });
+  });
+
+  describe("Create And Fund", () => {
+    it("Should initialize and fund an escrow in one transaction", async () => {
+      const client = new EscrowClient(program, provider);
+      const { escrow, vault } = await client.createAndFundEscrow(buyerKeypair, {
+        amount: ESCROW_AMOUNT,
+        seller: sellerKeypair.publicKey,
+        mint,
+        releaseConditions: "Funded at creation",
+      });
+
+      const escrowAccount = await program.account.escrowAccount.fetch(escrow);
+      assert.isTrue(escrowAccount.state.funded !== undefined);
+      const vaultAccount = await getAccount(provider.connection, vault);
+      assert.equal(vaultAccount.amount.toString(), ESCROW_AMOUNT.toString());
+    });
+
+    it("Should not leave an escrow behind when the deposit fails", async () => {
+      const client = new EscrowClient(program, provider);
+      const escrowSeed = new anchor.BN(Date.now());
+      try {
+        await client.createAndFundEscrow(buyerKeypair, {
+          amount: new anchor.BN(1_000_000_000_000), // More than the buyer holds
+          seller: sellerKeypair.publicKey,
+          mint,
+          releaseConditions: "Never funded",
+        }, escrowSeed);
+        assert.fail("Should have failed");
+      } catch (error) {
+        assert.instanceOf(error, TokenProgramError);
+        assert.equal(error.code, "TokenInsufficientFunds");
+      }
+
+      const { escrow } = client.generateEscrowPDAs(buyerKeypair.publicKey, escrowSeed);
+      assert.isNull(await program.account.escrowAccount.fetchNullable(escrow));
+    });
+  });
+
+  describe("Recipient Token Accounts", () => {
+    it("Should open the seller's token account when releasing", async () => {
+      const client = new EscrowClient(program, provider);
+      const freshSeller = anchor.web3.Keypair.generate();
+      const freshSellerTokenAccount = await getAssociatedTokenAddress(mint, freshSeller.publicKey);
+      assert.isNull(await provider.connection.getAccountInfo(freshSellerTokenAccount));
+
+      const { escrow } = await client.createAndFundEscrow(buyerKeypair, {
+        amount: ESCROW_AMOUNT,
+        seller: freshSeller.publicKey,
+        mint,
+        releaseConditions: "Seller without a token account",
+      });
+      await client.releaseFunds(buyerKeypair, escrow);
+
+      const sellerAccount = await getAccount(provider.connection, freshSellerTokenAccount);
+      assert.equal(
+        sellerAccount.amount.toString(),
+        ESCROW_AMOUNT.sub(feeFor(ESCROW_AMOUNT)).toString()
+      );
+    });
+
+    it("Should open the treasury's token account for a new mint", async () => {
+      const client = new EscrowClient(program, provider);
+      const freshMint = await createMint(
+        provider.connection,
+        buyerKeypair,
+        buyerKeypair.publicKey,
+        null,
+        6
+      );
+      const buyerFreshAccount = await createAccount(
+        provider.connection,
+        buyerKeypair,
+        freshMint,
+        buyerKeypair.publicKey
+      );
+      await mintTo(
+        provider.connection,
+        buyerKeypair,
+        freshMint,
+        buyerFreshAccount,
+        buyerKeypair,
+        ESCROW_AMOUNT.toNumber()
+      );
+      const treasuryFreshAccount = await getAssociatedTokenAddress(
+        freshMint,
+        treasuryKeypair.publicKey
+      );
+      assert.isNull(await provider.connection.getAccountInfo(treasuryFreshAccount));
+
+      const { escrow } = await client.createAndFundEscrow(buyerKeypair, {
+        amount: ESCROW_AMOUNT,
+        seller: sellerKeypair.publicKey,
+        mint: freshMint,
+        releaseConditions: "First escrow in this mint",
+      });
+      await client.releaseFunds(buyerKeypair, escrow);
+
+      const treasuryAccount = await getAccount(provider.connection, treasuryFreshAccount);
+      assert.equal(treasuryAccount.amount.toString(), feeFor(ESCROW_AMOUNT).toString());
+    });
+  });
+
+  describe("Error Decoding", () => {
+    it("Should throw a typed error with the program's code, message and logs", async () => {
+      const client = new EscrowClient(program, provider);
+      const { escrow } = await client.createAndFundEscrow(buyerKeypair, {
+        amount: ESCROW_AMOUNT,
+        seller: sellerKeypair.publicKey,
+        mint,
+        releaseConditions: "Decoded errors",
+      });
+
+      try {
+        await client.cancelEscrow(sellerKeypair, escrow);
+        assert.fail("Should have failed");
+      } catch (error) {
+        assert.instanceOf(error, EscrowProgramError);
+        assert.equal(error.code, "UnauthorizedCancel");
+        assert.equal(error.errorNumber, 6005);
+        assert.equal(error.message, "Unauthorized to cancel escrow");
+        assert.isNotEmpty(error.logs);
+      }
+    });
+  });
+
+  describe("Instruction Builders", () => {
+    const signAndSend = async (serialized: string, signers: anchor.web3.Keypair[]) => {
+      const transaction = anchor.web3.VersionedTransaction.deserialize(
+        Buffer.from(serialized, "base64")
+      );
+      transaction.sign(signers);
+      const signature = await provider.connection.sendRawTransaction(transaction.serialize());
+      await provider.connection.confirmTransaction(signature);
+    };
+
+    it("Should export builder instructions as an unsigned transaction", async () => {
+      const client = new EscrowClient(program, provider);
+      const { instructions, escrow } = await client.buildInitializeEscrowIx(buyerKeypair.publicKey, {
+        amount: ESCROW_AMOUNT,
+        seller: sellerKeypair.publicKey,
+        mint,
+        releaseConditions: "Signed offline",
+      });
+      const unsigned = await client.exportUnsignedTransaction(instructions, {
+        feePayer: buyerKeypair.publicKey,
+      });
+
+      // Nothing is sent until the exported transaction is signed
+      assert.isNull(await program.account.escrowAccount.fetchNullable(escrow));
+
+      await signAndSend(unsigned, [buyerKeypair]);
+      const escrowAccount = await program.account.escrowAccount.fetch(escrow);
+      assert.isTrue(escrowAccount.state.initialized !== undefined);
+    });
+
+    it("Should export a release against a durable nonce", async () => {
+      const client = new EscrowClient(program, provider);
+      const { escrow } = await client.initializeEscrow(buyerKeypair, {
+        amount: ESCROW_AMOUNT,
+        seller: sellerKeypair.publicKey,
+        mint,
+        releaseConditions: "Released through a nonce",
+      });
+      await client.deposit(buyerKeypair, escrow, mint);
+
+      const nonceKeypair = anchor.web3.Keypair.generate();
+      await provider.sendAndConfirm(
+        new anchor.web3.Transaction().add(
+          ...anchor.web3.SystemProgram.createNonceAccount({
+            fromPubkey: provider.wallet.publicKey,
+            noncePubkey: nonceKeypair.publicKey,
+            authorizedPubkey: buyerKeypair.publicKey,
+            lamports: await provider.connection.getMinimumBalanceForRentExemption(
+              anchor.web3.NONCE_ACCOUNT_LENGTH
+            ),
+          }).instructions
+        ),
+        [nonceKeypair]
+      );
+      const { nonce } = (await provider.connection.getNonce(nonceKeypair.publicKey))!;
+
+      const unsigned = await client.exportUnsignedTransaction(
+        await client.buildReleaseIx(buyerKeypair.publicKey, escrow),
+        {
+          feePayer: buyerKeypair.publicKey,
+          nonce: { account: nonceKeypair.publicKey, authority: buyerKeypair.publicKey },
+        }
+      );
+      const transaction = anchor.web3.VersionedTransaction.deserialize(
+        Buffer.from(unsigned, "base64")
+      );
+      assert.equal(transaction.message.recentBlockhash, nonce);
+
+      await signAndSend(unsigned, [buyerKeypair]);
+      const escrowAccount = await program.account.escrowAccount.fetch(escrow);
+      assert.isTrue(escrowAccount.state.released !== undefined);
+
+      const advanced = await provider.connection.getNonce(nonceKeypair.publicKey);
+      assert.notEqual(advanced!.nonce, nonce);
+    });
+  });
+
+  describe("Account Versioning", () => {
+    it("Should create escrows on the current version", async () => {
+      const client = new EscrowClient(program, provider);
+      const { escrow } = await client.initializeEscrow(buyerKeypair, {
+        amount: ESCROW_AMOUNT,
+        seller: sellerKeypair.publicKey,
+        mint,
+        releaseConditions: "Versioned escrow",
+      });
+
+      const escrowAccount = await program.account.escrowAccount.fetch(escrow);
+      assert.equal(escrowAccount.version, ESCROW_VERSION);
+      assert.isFalse(escrowAccount.holdsLamports);
+      assert.deepEqual(escrowAccount.reserved, new Array(63).fill(0));
+
+      // The buyer sits after the version byte now
+      const buyerEscrows = await client.getEscrowsForBuyer(buyerKeypair.publicKey);
+      const info = buyerEscrows.find(e => e.escrow.equals(escrow));
+      assert.isDefined(info);
+      assert.equal(info!.version, ESCROW_VERSION);
+
+      try {
+        await client.migrateEscrow(sellerKeypair, escrow);
+        assert.fail("Should have failed");
+      } catch (error) {
+        assert.equal(error.code, "AlreadyMigrated");
+      }
+    });
+
+    it("Should migrate and release an escrow in the original layout", async () => {
+      // Loaded by the test validator from tests/fixtures: funded with 1 token
+      // and past its timeout, so anyone may release it to the seller
+      const escrow = new anchor.web3.PublicKey(legacyEscrowFixture.pubkey);
+      const client = new EscrowClient(program, provider);
+
+      const legacyInfo = await client.getEscrowInfo(escrow);
+      assert.equal(legacyInfo.version, 0);
+      assert.equal(legacyInfo.state, "funded");
+      assert.equal(legacyInfo.releaseConditions, "Written by the original program");
+
+      // The seller lookup matches the seller at its offset in either layout
+      const sellerEscrows = async () =>
+        (await client.getEscrowsForSeller(legacyInfo.seller)).filter(info => info.escrow.equals(escrow));
+      assert.lengthOf(await sellerEscrows(), 1);
+
+      await client.migrateEscrow(buyerKeypair, escrow);
+      const escrowAccount = await program.account.escrowAccount.fetch(escrow);
+      assert.equal(escrowAccount.version, ESCROW_VERSION);
+      assert.equal(escrowAccount.depositedAmount.toString(), ESCROW_AMOUNT.toString());
+      assert.equal(escrowAccount.releasedAmount.toString(), "0");
+      assert.deepEqual(escrowAccount.milestones, []);
+      assert.isNull(escrowAccount.counterMint);
+      assert.lengthOf(await sellerEscrows(), 1);
+
+      await client.releaseFunds(buyerKeypair, escrow);
+      const vaultAccount = await getAccount(provider.connection, legacyInfo.vault);
+      assert.equal(vaultAccount.amount.toString(), "0");
+      const sellerAccount = await getAccount(
+        provider.connection,
+        await getAssociatedTokenAddress(escrowAccount.mint, escrowAccount.seller)
+      );
+      assert.equal(
+        sellerAccount.amount.toString(),
+        ESCROW_AMOUNT.sub(feeFor(ESCROW_AMOUNT)).toString()
+      );
+    });
   });
 
   describe("Close Escrow", () => {